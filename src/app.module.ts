@@ -1,6 +1,8 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import configuration from './config/configuration';
+import { validateEnvironment } from './config/env.validation';
+import { AuthModule } from './modules/auth/auth.module';
 import { HealthModule } from './modules/health/health.module';
 import { ChatModule } from './modules/chat/chat.module';
 import { VoiceModule } from './modules/voice/voice.module';
@@ -10,10 +12,12 @@ import { VoiceModule } from './modules/voice/voice.module';
     ConfigModule.forRoot({
       isGlobal: true,
       load: [configuration],
+      validate: validateEnvironment,
     }),
+    AuthModule,
     HealthModule,
     ChatModule,
     VoiceModule,
   ],
 })
-export class AppModule { }
+export class AppModule {}
@@ -0,0 +1,47 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { setupPrimary } from '@socket.io/cluster-adapter';
+import cluster from 'cluster';
+import { setupPrimaryChatState } from './modules/chat/repositories/chat-replication';
+import { createChatRepository } from './modules/chat/repositories/chat-repository.provider';
+
+/**
+ * Processo primário do modo cluster: não atende HTTP, só guarda o estado do
+ * chat, repassa mensagens entre os workers e recria os que caírem.
+ */
+export function runClusterPrimary(configService: ConfigService) {
+  const logger = new Logger('ClusterPrimary');
+
+  setupPrimary();
+  setupPrimaryChatState(createChatRepository(configService));
+
+  // Cada worker tem uma posição fixa (fatia própria das portas RTC); o
+  // substituto de um worker que caiu herda a dele
+  const indexes = new Map<number, number>();
+  const fork = (index: number) => {
+    const worker = cluster.fork({ CLUSTER_WORKER_INDEX: String(index) });
+    indexes.set(worker.id, index);
+  };
+
+  const workers = configService.getOrThrow<number>('cluster.workers');
+  for (let i = 0; i < workers; i++) {
+    fork(i);
+  }
+
+  cluster.on('exit', (worker, code, signal) => {
+    logger.warn(
+      `Worker ${worker.process.pid} saiu (${signal ?? code}), iniciando outro`,
+    );
+    const index = indexes.get(worker.id) ?? 0;
+    indexes.delete(worker.id);
+    fork(index);
+  });
+
+  logger.log(`🧩 Cluster iniciado com ${workers} workers`);
+  if (workers > 1) {
+    // Routers do mediasoup, presença e rate limit ficam em cada processo
+    logger.warn(
+      'Canais de voz não são compartilhados entre workers: usuários da mesma sala em workers diferentes não se ouvem. Use CLUSTER_WORKERS=1 para voz.',
+    );
+  }
+}
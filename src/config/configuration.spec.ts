@@ -0,0 +1,56 @@
+import configuration from './configuration';
+
+describe('configuration', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it('derives the invite secret from the JWT secret', () => {
+    process.env = { ...env, AUTH_JWT_SECRET: 'a'.repeat(32) };
+    delete process.env.INVITE_SECRET;
+    const { auth, chat } = configuration();
+
+    expect(chat.invites.secret).toEqual(expect.any(String));
+    expect(chat.invites.secret).not.toBe(auth.jwtSecret);
+    expect(configuration().chat.invites.secret).toBe(chat.invites.secret);
+  });
+
+  it('prefers an explicit invite secret', () => {
+    process.env = {
+      ...env,
+      AUTH_JWT_SECRET: 'a'.repeat(32),
+      INVITE_SECRET: 'i'.repeat(32),
+    };
+
+    expect(configuration().chat.invites.secret).toBe('i'.repeat(32));
+  });
+
+  it('has no secrets without AUTH_JWT_SECRET', () => {
+    process.env = { ...env };
+    delete process.env.AUTH_JWT_SECRET;
+    delete process.env.INVITE_SECRET;
+    const { auth, chat } = configuration();
+
+    expect(auth.jwtSecret).toBeUndefined();
+    expect(chat.invites.secret).toBeUndefined();
+  });
+
+  it('keeps a speaker throttle of 0 instead of the default', () => {
+    process.env = { ...env, VOICE_SPEAKER_THROTTLE_MS: '0' };
+    expect(configuration().voice.speakers.throttleMs).toBe(0);
+
+    delete process.env.VOICE_SPEAKER_THROTTLE_MS;
+    expect(configuration().voice.speakers.throttleMs).toBe(500);
+  });
+
+  it('defaults to one mediasoup worker per process in cluster mode', () => {
+    process.env = { ...env, CLUSTER_ENABLED: 'true' };
+    delete process.env.MEDIASOUP_WORKERS;
+    expect(configuration().voice.workers).toBe(1);
+
+    process.env.MEDIASOUP_WORKERS = '4';
+    expect(configuration().voice.workers).toBe(4);
+  });
+});
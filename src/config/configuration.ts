@@ -1,7 +1,168 @@
-export default () => ({
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { availableParallelism } from 'os';
+import {
+  DEFAULT_RTC_MAX_PORT,
+  DEFAULT_RTC_MIN_PORT,
+  IceTransportPolicy,
+  MediasoupLogLevel,
+  splitList,
+  VoiceCodec,
+} from './env.validation';
+
+/** Chave própria para cada uso, derivada de um segredo obrigatório. */
+const deriveSecret = (secret: string | undefined, purpose: string) =>
+  secret && createHmac('sha256', secret).update(purpose).digest('base64url');
+
+// Valores vindos do ambiente já passaram por `validateEnvironment`
+const configuration = () => ({
   app: {
     name: process.env.APP_NAME,
     port: Number(process.env.APP_PORT) || 3000,
+    host: process.env.APP_HOST || '0.0.0.0',
     env: process.env.NODE_ENV,
+    // Origens aceitas no HTTP e no socket.io; '*' libera todas
+    corsOrigins: splitList(process.env.CORS_ORIGINS || '*'),
+  },
+  cluster: {
+    // Vários processos via `cluster` do Node; o primário guarda o estado do
+    // chat (no backend de `chat.storage`) e repassa os broadcasts do socket.io
+    enabled: process.env.CLUSTER_ENABLED === 'true',
+    workers: Number(process.env.CLUSTER_WORKERS) || availableParallelism(),
+    // Posição deste worker, definida pelo primário ao criar o processo
+    index: Number(process.env.CLUSTER_WORKER_INDEX) || 0,
+  },
+  auth: {
+    jwtSecret: process.env.AUTH_JWT_SECRET,
+    tokenTtlSeconds: Number(process.env.AUTH_TOKEN_TTL) || 60 * 60 * 24 * 30,
+  },
+  chat: {
+    storage: {
+      // 'memory' (padrão) ou 'file' (journal JSON local)
+      driver: process.env.CHAT_STORAGE_DRIVER || 'memory',
+      filePath: process.env.CHAT_STORAGE_FILE || 'data/chat.jsonl',
+    },
+    invites: {
+      secret:
+        process.env.INVITE_SECRET ||
+        deriveSecret(process.env.AUTH_JWT_SECRET, 'chat-invites'),
+      defaultTtlSeconds: Number(process.env.INVITE_TTL) || 60 * 60 * 24,
+      maxTtlSeconds: 60 * 60 * 24 * 30,
+    },
+    attachments: {
+      dir: process.env.ATTACHMENTS_DIR || 'data/uploads',
+      maxSizeBytes:
+        Number(process.env.ATTACHMENTS_MAX_SIZE) || 10 * 1024 * 1024,
+      allowedMimeTypes: (
+        process.env.ATTACHMENTS_MIME_TYPES ||
+        'image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain'
+      ).split(','),
+    },
+    presence: {
+      typingTimeoutMs: Number(process.env.TYPING_TIMEOUT_MS) || 5000,
+      idleTimeoutMs: Number(process.env.PRESENCE_IDLE_TIMEOUT_MS) || 60000,
+    },
+  },
+  voice: {
+    // Workers do mediasoup; cada Router vai para o menos ocupado. No modo
+    // cluster já há um processo por núcleo, então o padrão é um por processo
+    workers:
+      Number(process.env.MEDIASOUP_WORKERS) ||
+      (process.env.CLUSTER_ENABLED === 'true' ? 1 : availableParallelism()),
+    mediasoup: {
+      logLevel: (process.env.MEDIASOUP_LOG_LEVEL ||
+        'warn') as MediasoupLogLevel,
+      // Faixa de portas UDP/TCP de cada Worker; precisa estar liberada no firewall
+      rtcMinPort:
+        Number(process.env.MEDIASOUP_RTC_MIN_PORT) || DEFAULT_RTC_MIN_PORT,
+      rtcMaxPort:
+        Number(process.env.MEDIASOUP_RTC_MAX_PORT) || DEFAULT_RTC_MAX_PORT,
+      listenIp: process.env.MEDIASOUP_LISTEN_IP || '0.0.0.0',
+      // IP ou hostname público divulgado nos candidatos ICE
+      announcedIp: process.env.MEDIASOUP_ANNOUNCED_IP || '127.0.0.1',
+      codecs: splitList(
+        process.env.MEDIASOUP_CODECS || 'opus,vp8,vp9,h264',
+      ) as VoiceCodec[],
+      // bps; limites por WebRtcTransport
+      initialAvailableOutgoingBitrate:
+        Number(process.env.MEDIASOUP_INITIAL_OUTGOING_BITRATE) || 1000000,
+      maxIncomingBitrate:
+        Number(process.env.MEDIASOUP_MAX_INCOMING_BITRATE) || 1500000,
+      maxOutgoingBitrate:
+        Number(process.env.MEDIASOUP_MAX_OUTGOING_BITRATE) || 3000000,
+    },
+    // Repassados ao cliente junto com os parâmetros do transport
+    turn: {
+      urls: splitList(process.env.TURN_URLS),
+      username: process.env.TURN_USERNAME,
+      credential: process.env.TURN_CREDENTIAL,
+      iceTransportPolicy: (process.env.TURN_ICE_TRANSPORT_POLICY ||
+        'all') as IceTransportPolicy,
+    },
+    speakers: {
+      // Volumes abaixo do limiar (dBov, -127 a 0) contam como silêncio
+      audioLevelThreshold:
+        Number(process.env.VOICE_AUDIO_LEVEL_THRESHOLD) || -70,
+      audioLevelIntervalMs:
+        Number(process.env.VOICE_AUDIO_LEVEL_INTERVAL_MS) || 800,
+      maxEntries: 5,
+      activeSpeakerIntervalMs:
+        Number(process.env.VOICE_ACTIVE_SPEAKER_INTERVAL_MS) || 300,
+      // Intervalo mínimo entre eventos audio_levels/active_speaker por sala
+      throttleMs: Number(process.env.VOICE_SPEAKER_THROTTLE_MS ?? 500),
+    },
+    // Após uma queda do socket, tempo para reconectar e retomar a mídia
+    // antes de sair do canal de voz (0 = sai na hora)
+    reconnectGraceMs: Number(process.env.VOICE_RECONNECT_GRACE_MS ?? 15000),
+    recording: {
+      // Uma pasta por gravação, com um .ogg por participante e o manifest.json
+      dir: process.env.VOICE_RECORDING_DIR || 'data/recordings',
+    },
+    stats: {
+      // getStats() de transports, producers e consumers a cada intervalo
+      intervalMs: Number(process.env.VOICE_STATS_INTERVAL_MS) || 5000,
+      // Qualquer métrica acima do limite derruba o connection_quality do usuário
+      thresholds: {
+        fair: { lossPercent: 2, jitterMs: 30, rttMs: 250 },
+        poor: { lossPercent: 8, jitterMs: 80, rttMs: 500 },
+      },
+    },
+  },
+  rateLimit: {
+    enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+    // Token bucket por socket e evento: `capacity` é a rajada máxima e
+    // `refillPerSecond` a taxa sustentada
+    default: { capacity: 20, refillPerSecond: 10 },
+    events: {
+      send_message: { capacity: 10, refillPerSecond: 1 },
+      edit_message: { capacity: 5, refillPerSecond: 0.5 },
+      add_reaction: { capacity: 10, refillPerSecond: 2 },
+      create_room: { capacity: 3, refillPerSecond: 0.05 },
+      open_dm: { capacity: 5, refillPerSecond: 0.2 },
+      join_room: { capacity: 10, refillPerSecond: 1 },
+      create_invite: { capacity: 5, refillPerSecond: 0.1 },
+      search_messages: { capacity: 5, refillPerSecond: 1 },
+      join_voice_channel: { capacity: 5, refillPerSecond: 0.2 },
+      create_webrtc_transport: { capacity: 4, refillPerSecond: 0.2 },
+      produce: { capacity: 4, refillPerSecond: 0.2 },
+      start_recording: { capacity: 2, refillPerSecond: 0.1 },
+      get_voice_stats: { capacity: 5, refillPerSecond: 0.5 },
+      restart_ice: { capacity: 3, refillPerSecond: 0.2 },
+    },
+    // Violações acima do limite dentro da janela derrubam a conexão
+    maxViolations: Number(process.env.RATE_LIMIT_MAX_VIOLATIONS) || 20,
+    violationWindowMs: 60000,
   },
 });
+
+export type AppConfig = ReturnType<typeof configuration>;
+export type MediasoupConfig = AppConfig['voice']['mediasoup'];
+export type TurnConfig = AppConfig['voice']['turn'];
+
+/** Opção `origin` de CORS: `true` libera qualquer origem, senão só as da lista. */
+export function corsOrigin(configService: ConfigService): true | string[] {
+  const origins = configService.getOrThrow<string[]>('app.corsOrigins');
+  return origins.includes('*') ? true : origins;
+}
+
+export default configuration;
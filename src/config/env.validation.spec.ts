@@ -0,0 +1,95 @@
+import 'reflect-metadata';
+import { validateEnvironment } from './env.validation';
+
+const AUTH_JWT_SECRET = 'a'.repeat(32);
+
+describe('validateEnvironment', () => {
+  it('accepts an environment with only the JWT secret', () => {
+    expect(validateEnvironment({ AUTH_JWT_SECRET })).toEqual({
+      AUTH_JWT_SECRET,
+    });
+  });
+
+  it('refuses to start without a strong JWT secret', () => {
+    expect(() => validateEnvironment({})).toThrow(/AUTH_JWT_SECRET/);
+    expect(() =>
+      validateEnvironment({ AUTH_JWT_SECRET: 'dev-secret-change-me' }),
+    ).toThrow(/AUTH_JWT_SECRET must be longer than or equal to 32/);
+  });
+
+  it('accepts a complete valid environment', () => {
+    const env = {
+      AUTH_JWT_SECRET,
+      APP_PORT: '3000',
+      APP_HOST: '0.0.0.0',
+      CORS_ORIGINS: 'https://chat.example.com, *',
+      MEDIASOUP_RTC_MIN_PORT: '40000',
+      MEDIASOUP_RTC_MAX_PORT: '40100',
+      MEDIASOUP_ANNOUNCED_IP: 'media.example.com',
+      MEDIASOUP_CODECS: 'opus,vp8',
+      TURN_URLS: 'stun:stun.example.com,turn:turn.example.com:3478',
+      TURN_USERNAME: 'user',
+      TURN_CREDENTIAL: 'secret',
+      TURN_ICE_TRANSPORT_POLICY: 'relay',
+    };
+
+    expect(validateEnvironment(env)).toBe(env);
+  });
+
+  it('reports every invalid variable at once', () => {
+    expect(() =>
+      validateEnvironment({
+        APP_PORT: 'abc',
+        MEDIASOUP_LOG_LEVEL: 'verbose',
+        MEDIASOUP_CODECS: 'vp8,av1',
+      }),
+    ).toThrow(
+      /APP_PORT[\s\S]*MEDIASOUP_LOG_LEVEL[\s\S]*unknown codecs: av1[\s\S]*must include opus/,
+    );
+  });
+
+  it('rejects an inverted RTC port range', () => {
+    expect(() =>
+      validateEnvironment({
+        MEDIASOUP_RTC_MIN_PORT: '50000',
+        MEDIASOUP_RTC_MAX_PORT: '40000',
+      }),
+    ).toThrow('MEDIASOUP_RTC_MIN_PORT must not be greater');
+  });
+
+  it('checks a single RTC port against the default of the other', () => {
+    expect(() =>
+      validateEnvironment({ MEDIASOUP_RTC_MIN_PORT: '20000' }),
+    ).toThrow('(20000 > 10100)');
+    expect(() =>
+      validateEnvironment({ MEDIASOUP_RTC_MAX_PORT: '5000' }),
+    ).toThrow('(10000 > 5000)');
+    expect(() =>
+      validateEnvironment({ AUTH_JWT_SECRET, MEDIASOUP_RTC_MAX_PORT: '20000' }),
+    ).not.toThrow();
+  });
+
+  it('requires credentials for TURN servers', () => {
+    expect(() =>
+      validateEnvironment({ TURN_URLS: 'turns:turn.example.com' }),
+    ).toThrow('TURN_USERNAME and TURN_CREDENTIAL are required');
+  });
+
+  it('requires a TURN server for the relay policy', () => {
+    expect(() =>
+      validateEnvironment({
+        TURN_URLS: 'stun:stun.example.com',
+        TURN_ICE_TRANSPORT_POLICY: 'relay',
+      }),
+    ).toThrow('TURN_ICE_TRANSPORT_POLICY=relay requires a turn: server');
+  });
+
+  it('rejects malformed origins and TURN URLs', () => {
+    expect(() =>
+      validateEnvironment({
+        CORS_ORIGINS: 'not a url',
+        TURN_URLS: 'http://turn.example.com',
+      }),
+    ).toThrow(/CORS_ORIGINS has an invalid origin[\s\S]*TURN_URLS must use/);
+  });
+});
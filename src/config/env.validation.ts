@@ -0,0 +1,307 @@
+import { plainToInstance } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsIP,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  MinLength,
+  isFQDN,
+  isIP,
+  validateSync,
+} from 'class-validator';
+
+export const MEDIASOUP_LOG_LEVELS = ['debug', 'warn', 'error', 'none'] as const;
+export type MediasoupLogLevel = (typeof MEDIASOUP_LOG_LEVELS)[number];
+
+/** Codecs que o Router pode oferecer; Opus é obrigatório. */
+export const VOICE_CODECS = ['opus', 'vp8', 'vp9', 'h264'] as const;
+export type VoiceCodec = (typeof VOICE_CODECS)[number];
+
+export const ICE_TRANSPORT_POLICIES = ['all', 'relay'] as const;
+export type IceTransportPolicy = (typeof ICE_TRANSPORT_POLICIES)[number];
+
+/** Portas RTC usadas quando MEDIASOUP_RTC_MIN_PORT/MAX_PORT faltam. */
+export const DEFAULT_RTC_MIN_PORT = 10000;
+export const DEFAULT_RTC_MAX_PORT = 10100;
+
+const BOOLEAN = ['true', 'false'];
+
+/**
+ * Variáveis de ambiente aceitas. Só o segredo do JWT é obrigatório; as demais
+ * têm padrão em `configuration.ts`, mas um valor presente e inválido impede
+ * a subida.
+ */
+class EnvironmentVariables {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  APP_PORT?: number;
+
+  @IsOptional()
+  @IsIP()
+  APP_HOST?: string;
+
+  /** Lista separada por vírgula; '*' libera qualquer origem. */
+  @IsOptional()
+  @IsString()
+  CORS_ORIGINS?: string;
+
+  @IsOptional()
+  @IsIn(BOOLEAN)
+  CLUSTER_ENABLED?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  CLUSTER_WORKERS?: number;
+
+  /** Sem padrão: um segredo conhecido deixaria qualquer um assinar tokens. */
+  @IsString()
+  @MinLength(32)
+  AUTH_JWT_SECRET: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  AUTH_TOKEN_TTL?: number;
+
+  @IsOptional()
+  @IsIn(['memory', 'file'])
+  CHAT_STORAGE_DRIVER?: string;
+
+  /** Sem ela, a chave dos convites é derivada de `AUTH_JWT_SECRET`. */
+  @IsOptional()
+  @IsString()
+  @MinLength(32)
+  INVITE_SECRET?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  INVITE_TTL?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  ATTACHMENTS_MAX_SIZE?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  TYPING_TIMEOUT_MS?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  PRESENCE_IDLE_TIMEOUT_MS?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  MEDIASOUP_WORKERS?: number;
+
+  @IsOptional()
+  @IsIn(MEDIASOUP_LOG_LEVELS)
+  MEDIASOUP_LOG_LEVEL?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1024)
+  @Max(65535)
+  MEDIASOUP_RTC_MIN_PORT?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1024)
+  @Max(65535)
+  MEDIASOUP_RTC_MAX_PORT?: number;
+
+  @IsOptional()
+  @IsIP()
+  MEDIASOUP_LISTEN_IP?: string;
+
+  /** IP ou hostname público anunciado nos candidatos ICE. */
+  @IsOptional()
+  @IsString()
+  MEDIASOUP_ANNOUNCED_IP?: string;
+
+  /** Lista separada por vírgula, dentre `VOICE_CODECS`. */
+  @IsOptional()
+  @IsString()
+  MEDIASOUP_CODECS?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(100000)
+  MEDIASOUP_INITIAL_OUTGOING_BITRATE?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(100000)
+  MEDIASOUP_MAX_INCOMING_BITRATE?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(100000)
+  MEDIASOUP_MAX_OUTGOING_BITRATE?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(-127)
+  @Max(0)
+  VOICE_AUDIO_LEVEL_THRESHOLD?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  VOICE_AUDIO_LEVEL_INTERVAL_MS?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  VOICE_ACTIVE_SPEAKER_INTERVAL_MS?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  VOICE_SPEAKER_THROTTLE_MS?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  VOICE_RECONNECT_GRACE_MS?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  VOICE_STATS_INTERVAL_MS?: number;
+
+  /** Servidores TURN/STUN repassados aos clientes, separados por vírgula. */
+  @IsOptional()
+  @IsString()
+  TURN_URLS?: string;
+
+  @IsOptional()
+  @IsString()
+  TURN_USERNAME?: string;
+
+  @IsOptional()
+  @IsString()
+  TURN_CREDENTIAL?: string;
+
+  @IsOptional()
+  @IsIn(ICE_TRANSPORT_POLICIES)
+  TURN_ICE_TRANSPORT_POLICY?: string;
+
+  @IsOptional()
+  @IsIn(BOOLEAN)
+  RATE_LIMIT_ENABLED?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  RATE_LIMIT_MAX_VIOLATIONS?: number;
+}
+
+export const splitList = (value: string | undefined) =>
+  (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/** Regras que envolvem mais de uma variável ou itens de uma lista. */
+function crossFieldErrors(env: EnvironmentVariables): string[] {
+  const errors: string[] = [];
+
+  // Com o padrão aplicado: definir só uma das portas também pode inverter a faixa
+  const minPort = env.MEDIASOUP_RTC_MIN_PORT ?? DEFAULT_RTC_MIN_PORT;
+  const maxPort = env.MEDIASOUP_RTC_MAX_PORT ?? DEFAULT_RTC_MAX_PORT;
+  if (minPort > maxPort) {
+    errors.push(
+      `MEDIASOUP_RTC_MIN_PORT must not be greater than MEDIASOUP_RTC_MAX_PORT (${minPort} > ${maxPort})`,
+    );
+  }
+
+  const announced = env.MEDIASOUP_ANNOUNCED_IP;
+  if (
+    announced !== undefined &&
+    !isIP(announced) &&
+    !isFQDN(announced, { require_tld: false })
+  ) {
+    errors.push('MEDIASOUP_ANNOUNCED_IP must be an IP address or hostname');
+  }
+
+  if (env.MEDIASOUP_CODECS !== undefined) {
+    const codecs = splitList(env.MEDIASOUP_CODECS);
+    const unknown = codecs.filter(
+      (codec) => !(VOICE_CODECS as readonly string[]).includes(codec),
+    );
+    if (unknown.length) {
+      errors.push(`MEDIASOUP_CODECS has unknown codecs: ${unknown.join(', ')}`);
+    }
+    if (!codecs.includes('opus')) {
+      errors.push('MEDIASOUP_CODECS must include opus');
+    }
+  }
+
+  for (const origin of splitList(env.CORS_ORIGINS)) {
+    if (origin !== '*' && !URL.canParse(origin)) {
+      errors.push(`CORS_ORIGINS has an invalid origin: ${origin}`);
+    }
+  }
+
+  const turnUrls = splitList(env.TURN_URLS);
+  const invalidTurn = turnUrls.filter((url) => !/^(stun|turns?):/.test(url));
+  if (invalidTurn.length) {
+    errors.push(
+      `TURN_URLS must use stun:, turn: or turns: (${invalidTurn.join(', ')})`,
+    );
+  }
+  if (
+    turnUrls.some((url) => url.startsWith('turn')) &&
+    (!env.TURN_USERNAME || !env.TURN_CREDENTIAL)
+  ) {
+    errors.push(
+      'TURN_USERNAME and TURN_CREDENTIAL are required for turn: servers',
+    );
+  }
+  if (
+    env.TURN_ICE_TRANSPORT_POLICY === 'relay' &&
+    !turnUrls.some((url) => url.startsWith('turn'))
+  ) {
+    errors.push(
+      'TURN_ICE_TRANSPORT_POLICY=relay requires a turn: server in TURN_URLS',
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Usado pelo `ConfigModule` e pelo primário do cluster: lança um erro com
+ * todas as variáveis inválidas de uma vez.
+ */
+export function validateEnvironment(config: Record<string, unknown>) {
+  const env = plainToInstance(EnvironmentVariables, config, {
+    enableImplicitConversion: true,
+  });
+
+  const errors = [
+    ...validateSync(env, { skipMissingProperties: false }).flatMap((error) =>
+      Object.values(error.constraints ?? {}),
+    ),
+    ...crossFieldErrors(env),
+  ];
+
+  if (errors.length) {
+    throw new Error(
+      `Invalid environment configuration:\n- ${errors.join('\n- ')}`,
+    );
+  }
+
+  return config;
+}
@@ -4,14 +4,26 @@ import {
   NestFastifyApplication,
 } from '@nestjs/platform-fastify';
 import { ValidationPipe } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import cluster from 'cluster';
+import fastifyMultipart from '@fastify/multipart';
+import fastifyStatic from '@fastify/static';
+import { mkdirSync } from 'fs';
+import { resolve } from 'path';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
-
+import { runClusterPrimary } from './cluster-primary';
+import configuration, { corsOrigin } from './config/configuration';
+import { validateEnvironment } from './config/env.validation';
+import { AuthIoAdapter } from './modules/auth/auth-io.adapter';
 
 const config = new DocumentBuilder()
   .setTitle('Bate papo em grupo')
-  .setDescription('Uma api para criação de grupos de chat e envio de mensagens usando socket.io')
+  .setDescription(
+    'Uma api para criação de grupos de chat e envio de mensagens usando socket.io',
+  )
   .setVersion('1.0')
+  .addBearerAuth()
   .build();
 
 async function bootstrap() {
@@ -20,7 +32,20 @@ async function bootstrap() {
     new FastifyAdapter(),
   );
 
+  const configService = app.get(ConfigService);
+  const uploadDir = resolve(
+    configService.get<string>('chat.attachments.dir', 'data/uploads'),
+  );
+  mkdirSync(uploadDir, { recursive: true });
+  await app.register(fastifyMultipart);
+  await app.register(fastifyStatic, {
+    root: uploadDir,
+    serve: false,
+  });
+
   app.setGlobalPrefix('api');
+  app.enableCors({ origin: corsOrigin(configService) });
+  app.useWebSocketAdapter(new AuthIoAdapter(app));
   app.useGlobalPipes(
     new ValidationPipe({
       whitelist: true,
@@ -32,6 +57,17 @@ async function bootstrap() {
   const document = SwaggerModule.createDocument(app, config);
   SwaggerModule.setup('docs', app, document);
 
-  await app.listen(3000, '0.0.0.0');
+  await app.listen(
+    configService.getOrThrow<number>('app.port'),
+    configService.getOrThrow<string>('app.host'),
+  );
+}
+
+// Falha antes de subir qualquer processo se o ambiente estiver inválido
+validateEnvironment(process.env);
+const configService = new ConfigService(configuration());
+if (configService.get<boolean>('cluster.enabled') && cluster.isPrimary) {
+  runClusterPrimary(configService);
+} else {
+  bootstrap();
 }
-bootstrap();
@@ -0,0 +1,59 @@
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/cluster-adapter';
+import cluster from 'cluster';
+import { Server, ServerOptions } from 'socket.io';
+import { corsOrigin } from '../../config/configuration';
+import { AuthService } from './auth.service';
+import { extractHandshakeToken, setSocketUserId } from './socket-auth';
+
+/**
+ * Adapter socket.io que valida o token no handshake e anexa o userId
+ * persistente em `socket.data`, antes de qualquer gateway ver a conexão.
+ * O CORS de todos os gateways vem de `app.corsOrigins`.
+ * No modo cluster, broadcasts e `fetchSockets` passam pelos outros workers.
+ */
+export class AuthIoAdapter extends IoAdapter {
+  private readonly logger = new Logger(AuthIoAdapter.name);
+
+  constructor(private readonly app: INestApplicationContext) {
+    super(app);
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const configService = this.app.get(ConfigService);
+    const clustered =
+      configService.get<boolean>('cluster.enabled') && cluster.isWorker;
+
+    // Sem sticky sessions, cada requisição de long-polling pode cair em um
+    // worker diferente; só WebSocket mantém a conexão no mesmo processo.
+    const server = super.createIOServer(port, {
+      ...options,
+      cors: { origin: corsOrigin(configService) },
+      ...(clustered && { transports: ['websocket'] }),
+    }) as Server;
+    if (clustered) {
+      server.adapter(createAdapter());
+    }
+
+    const authService = this.app.get(AuthService);
+
+    server.use((socket, next) => {
+      const token = extractHandshakeToken(socket);
+      if (!token) {
+        return next(new Error('Unauthorized'));
+      }
+
+      try {
+        setSocketUserId(socket, authService.verifyToken(token));
+        next();
+      } catch {
+        this.logger.warn(`Handshake recusado para ${socket.id}`);
+        next(new Error('Unauthorized'));
+      }
+    });
+
+    return server;
+  }
+}
@@ -0,0 +1,15 @@
+import { Body, Controller, Post } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { AuthService } from './auth.service';
+import { CreateTokenDto } from './dto/create-token.dto';
+
+@ApiTags('auth')
+@Controller('auth')
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  @Post('token')
+  createToken(@Body() body: CreateTokenDto) {
+    return this.authService.issueToken(body.token);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { HttpAuthGuard } from './http-auth.guard';
+
+@Module({
+  imports: [
+    JwtModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        secret: configService.getOrThrow<string>('auth.jwtSecret'),
+        signOptions: {
+          expiresIn: configService.getOrThrow<number>('auth.tokenTtlSeconds'),
+        },
+      }),
+    }),
+  ],
+  controllers: [AuthController],
+  providers: [AuthService, HttpAuthGuard],
+  exports: [AuthService, HttpAuthGuard],
+})
+export class AuthModule {}
@@ -0,0 +1,44 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { randomUUID } from 'crypto';
+
+interface TokenPayload {
+  sub: string;
+}
+
+@Injectable()
+export class AuthService {
+  constructor(private readonly jwtService: JwtService) {}
+
+  /**
+   * Emite um token para uma identidade persistente. Se um token anterior
+   * válido for informado, o mesmo userId é mantido (renovação).
+   */
+  issueToken(previousToken?: string) {
+    const userId = previousToken
+      ? (this.tryVerify(previousToken) ?? randomUUID())
+      : randomUUID();
+
+    return {
+      userId,
+      token: this.jwtService.sign({ sub: userId } satisfies TokenPayload),
+    };
+  }
+
+  verifyToken(token: string): string {
+    const userId = this.tryVerify(token);
+    if (!userId) {
+      throw new UnauthorizedException('Invalid token');
+    }
+    return userId;
+  }
+
+  private tryVerify(token: string): string | null {
+    try {
+      const payload = this.jwtService.verify<TokenPayload>(token);
+      return typeof payload.sub === 'string' ? payload.sub : null;
+    } catch {
+      return null;
+    }
+  }
+}
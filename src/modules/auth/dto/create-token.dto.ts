@@ -0,0 +1,11 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+
+export class CreateTokenDto {
+  @ApiPropertyOptional({
+    description: 'Token anterior, para renovar mantendo o mesmo userId',
+  })
+  @IsOptional()
+  @IsString()
+  token?: string;
+}
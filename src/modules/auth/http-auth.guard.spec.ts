@@ -0,0 +1,65 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+import { AuthService } from './auth.service';
+import { AllowQueryToken, HttpAuthGuard } from './http-auth.guard';
+
+const SECRET = 'a'.repeat(32);
+
+class Routes {
+  list(this: void) {}
+
+  @AllowQueryToken()
+  download(this: void) {}
+}
+
+describe('HttpAuthGuard', () => {
+  const authService = new AuthService(new JwtService({ secret: SECRET }));
+  const guard = new HttpAuthGuard(authService, new Reflector());
+
+  const contextFor = (request: object, handler = Routes.prototype.list) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => request }),
+      getHandler: () => handler,
+    }) as unknown as ExecutionContext;
+
+  it('attaches the user id of a valid bearer token', () => {
+    const { userId, token } = authService.issueToken();
+    const request = { headers: { authorization: `Bearer ${token}` } };
+
+    expect(guard.canActivate(contextFor(request))).toBe(true);
+    expect(request).toHaveProperty('userId', userId);
+  });
+
+  it('rejects tokens signed with a different secret', () => {
+    const forged = new JwtService({ secret: 'b'.repeat(32) }).sign({
+      sub: 'victim',
+    });
+
+    expect(() =>
+      guard.canActivate(
+        contextFor({ headers: { authorization: `Bearer ${forged}` } }),
+      ),
+    ).toThrow(UnauthorizedException);
+    expect(() => authService.verifyToken(forged)).toThrow('Invalid token');
+  });
+
+  it('rejects requests without a token', () => {
+    expect(() => guard.canActivate(contextFor({ headers: {} }))).toThrow(
+      'Missing bearer token',
+    );
+  });
+
+  it('accepts ?token= only on routes that allow it', () => {
+    const { userId, token } = authService.issueToken();
+    const request = { headers: {}, query: { token } };
+
+    expect(() => guard.canActivate(contextFor(request))).toThrow(
+      'Missing bearer token',
+    );
+    expect(
+      guard.canActivate(contextFor(request, Routes.prototype.download)),
+    ).toBe(true);
+    expect(request).toHaveProperty('userId', userId);
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  SetMetadata,
+  UnauthorizedException,
+  createParamDecorator,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthService } from './auth.service';
+
+const ALLOW_QUERY_TOKEN = 'allowQueryToken';
+
+/**
+ * Aceita o token também em `?token=`, para links diretos (ex.: <img src>)
+ * que não enviam headers. Fica restrito às rotas marcadas: na URL o token
+ * vai parar em logs e no histórico do navegador.
+ */
+export const AllowQueryToken = () => SetMetadata(ALLOW_QUERY_TOKEN, true);
+
+interface AuthenticatedRequest {
+  headers: Record<string, string | string[] | undefined>;
+  query?: Record<string, unknown>;
+  userId?: string;
+}
+
+@Injectable()
+export class HttpAuthGuard implements CanActivate {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  canActivate(context: ExecutionContext) {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const header = request.headers.authorization;
+    const [scheme, bearer] =
+      typeof header === 'string' ? header.split(' ') : [];
+    const queryToken = this.reflector.get<boolean | undefined>(
+      ALLOW_QUERY_TOKEN,
+      context.getHandler(),
+    )
+      ? request.query?.token
+      : undefined;
+    const token =
+      scheme === 'Bearer' && bearer
+        ? bearer
+        : typeof queryToken === 'string'
+          ? queryToken
+          : undefined;
+
+    if (!token) {
+      throw new UnauthorizedException('Missing bearer token');
+    }
+
+    request.userId = this.authService.verifyToken(token);
+    return true;
+  }
+}
+
+export const CurrentUserId = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().userId,
+);
@@ -0,0 +1,27 @@
+import { Socket } from 'socket.io';
+
+/** Sala socket.io que reúne todas as conexões de um mesmo usuário. */
+export const userChannel = (userId: string) => `user_${userId}`;
+
+interface SocketAuthData {
+  userId: string;
+}
+
+export function getSocketUserId(client: Socket): string {
+  return (client.data as SocketAuthData).userId;
+}
+
+export function setSocketUserId(client: Socket, userId: string) {
+  (client.data as SocketAuthData).userId = userId;
+}
+
+export function extractHandshakeToken(client: Socket): string | undefined {
+  const auth = client.handshake.auth as { token?: unknown } | undefined;
+  if (typeof auth?.token === 'string') return auth.token;
+
+  const header = client.handshake.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length);
+
+  const query = client.handshake.query.token;
+  return typeof query === 'string' ? query : undefined;
+}
@@ -0,0 +1,132 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { createWriteStream } from 'fs';
+import { mkdir, rm } from 'fs/promises';
+import { basename, join, resolve } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ChatService } from './chat.service';
+import { Attachment, AttachmentRef } from './interfaces/chat.interfaces';
+
+export interface IncomingFile {
+  filename: string;
+  mimetype: string;
+  file: Readable & { truncated?: boolean };
+}
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+/**
+ * Anexos ficam em disco (um arquivo por id) e os metadados na sala, para
+ * que o acesso siga sempre o `canAccessRoom` da sala de origem.
+ */
+@Injectable()
+export class AttachmentService {
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  get uploadDir() {
+    return resolve(
+      this.configService.getOrThrow<string>('chat.attachments.dir'),
+    );
+  }
+
+  get maxSizeBytes() {
+    return this.configService.getOrThrow<number>(
+      'chat.attachments.maxSizeBytes',
+    );
+  }
+
+  async upload(roomId: string, userId: string, file: IncomingFile) {
+    this.assertAccess(roomId, userId);
+
+    const allowed = this.configService.getOrThrow<string[]>(
+      'chat.attachments.allowedMimeTypes',
+    );
+    if (!allowed.includes(file.mimetype)) {
+      file.file.resume();
+      throw new UnsupportedMediaTypeException(
+        `Tipo de arquivo não permitido: ${file.mimetype}`,
+      );
+    }
+
+    await mkdir(this.uploadDir, { recursive: true });
+    const id = randomUUID();
+    const path = join(this.uploadDir, id);
+
+    let size = 0;
+    file.file.on('data', (chunk: Buffer) => (size += chunk.length));
+    await pipeline(file.file, createWriteStream(path));
+
+    if (file.file.truncated) {
+      await rm(path, { force: true });
+      throw new PayloadTooLargeException(
+        `Arquivo maior que ${this.maxSizeBytes} bytes`,
+      );
+    }
+
+    const attachment: Attachment = {
+      id,
+      fileName: basename(file.filename),
+      mimeType: file.mimetype,
+      size,
+      uploaderId: userId,
+      createdAt: new Date(),
+    };
+    this.chatService.addAttachment(roomId, attachment);
+
+    return attachment;
+  }
+
+  /** Metadados e caminho em disco de um anexo que o usuário pode ver. */
+  getForDownload(roomId: string, attachmentId: string, userId: string) {
+    this.assertAccess(roomId, userId);
+
+    const attachment = this.chatService.getAttachment(roomId, attachmentId);
+    if (!attachment) {
+      throw new NotFoundException('Attachment not found');
+    }
+
+    return { attachment, fileName: attachment.id };
+  }
+
+  /** Valida as referências enviadas com uma mensagem. */
+  resolveRefs(
+    roomId: string,
+    userId: string,
+    ids: string[] = [],
+  ): AttachmentRef[] {
+    if (ids.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      throw new BadRequestException('Too many attachments');
+    }
+
+    return ids.map((id) => {
+      const attachment = this.chatService.getAttachment(roomId, id);
+      if (!attachment || attachment.uploaderId !== userId) {
+        throw new BadRequestException(`Invalid attachment: ${id}`);
+      }
+
+      const { fileName, mimeType, size } = attachment;
+      return { id, fileName, mimeType, size };
+    });
+  }
+
+  private assertAccess(roomId: string, userId: string) {
+    if (!this.chatService.getRoom(roomId)) {
+      throw new NotFoundException('Room not found');
+    }
+    if (!this.chatService.canAccessRoom(roomId, userId)) {
+      throw new ForbiddenException('Unauthorized');
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import type {} from '@fastify/multipart';
+import type {} from '@fastify/static';
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiCreatedResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import {
+  AllowQueryToken,
+  CurrentUserId,
+  HttpAuthGuard,
+} from '../auth/http-auth.guard';
+import { AttachmentService } from './attachment.service';
+import { AttachmentDto } from './dto/attachment.dto';
+
+@ApiTags('attachments')
+@ApiBearerAuth()
+@UseGuards(HttpAuthGuard)
+@Controller('rooms/:roomId/attachments')
+export class AttachmentsController {
+  constructor(private readonly attachmentService: AttachmentService) {}
+
+  @Post()
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiCreatedResponse({ type: AttachmentDto })
+  async upload(
+    @Param('roomId') roomId: string,
+    @Req() request: FastifyRequest,
+    @CurrentUserId() userId: string,
+  ): Promise<AttachmentDto> {
+    if (!request.isMultipart()) {
+      throw new BadRequestException('Expected multipart/form-data');
+    }
+
+    const file = await request.file({
+      limits: { fileSize: this.attachmentService.maxSizeBytes, files: 1 },
+    });
+    if (!file) {
+      throw new BadRequestException('Missing file');
+    }
+
+    return this.attachmentService.upload(roomId, userId, file);
+  }
+
+  @Get(':attachmentId')
+  @AllowQueryToken()
+  download(
+    @Param('roomId') roomId: string,
+    @Param('attachmentId') attachmentId: string,
+    @CurrentUserId() userId: string,
+    @Res() reply: FastifyReply,
+  ) {
+    const { attachment, fileName } = this.attachmentService.getForDownload(
+      roomId,
+      attachmentId,
+      userId,
+    );
+
+    // Só imagens são exibidas inline; o resto é sempre baixado
+    const disposition = attachment.mimeType.startsWith('image/')
+      ? 'inline'
+      : 'attachment';
+
+    return reply
+      .header('content-type', attachment.mimeType)
+      .header('x-content-type-options', 'nosniff')
+      .header(
+        'content-disposition',
+        `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+      )
+      .sendFile(fileName, this.attachmentService.uploadDir, {
+        contentType: false,
+      });
+  }
+}
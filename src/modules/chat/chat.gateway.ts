@@ -5,93 +5,141 @@ import {
   OnGatewayConnection,
   OnGatewayDisconnect,
 } from '@nestjs/websockets';
+import { UseGuards } from '@nestjs/common';
 import { Server, Socket } from 'socket.io';
+import { getSocketUserId, userChannel } from '../auth/socket-auth';
+import { WsRateLimitGuard } from '../rate-limit/ws-rate-limit.guard';
 import { ChatService } from './chat.service';
-
-@WebSocketGateway({
-  cors: { origin: '*' },
-})
-export class ChatGateway
-  implements OnGatewayConnection, OnGatewayDisconnect {
+import { CreateRoomDto } from './dto/create-room.dto';
+import { AttachmentService } from './attachment.service';
+import { AttachmentRef, Message } from './interfaces/chat.interfaces';
+import { CreateInviteOptions, InviteService } from './invite.service';
+import { PRESENCE_STATUSES, PresenceService } from './presence.service';
+import type { PresenceStatus } from './presence.service';
+
+@WebSocketGateway()
+@UseGuards(WsRateLimitGuard)
+export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   @WebSocketServer()
   server: Server;
 
-  private userRooms = new Map<string, string>();
-
-  constructor(private readonly chatService: ChatService) { }
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly inviteService: InviteService,
+    private readonly presenceService: PresenceService,
+    private readonly attachmentService: AttachmentService,
+  ) {}
 
   handleConnection(client: Socket) {
+    const userId = getSocketUserId(client);
+    client.join(userChannel(userId));
+    this.presenceService.heartbeat(userId, () =>
+      this.emitPresenceChange(userId),
+    );
+
     client.emit('connected', {
-      userId: client.id,
+      userId,
     });
 
-    const allRooms = this.chatService.getRoomsDetailed();
-    const accessibleRooms = allRooms.filter(room =>
-      this.chatService.canAccessRoom(room.roomId, client.id)
-    );
-    client.emit('room_list', accessibleRooms);
+    client.emit('room_list', this.chatService.getAccessibleRooms(userId));
+    client.emit('dm_list', this.chatService.getDirectMessages(userId));
   }
 
-  handleDisconnect(client: Socket) {
-    const currentRoom = this.userRooms.get(client.id);
+  async handleDisconnect(client: Socket) {
+    const userId = getSocketUserId(client);
+
+    // O usuário continua na sala enquanto tiver outra conexão aberta, em
+    // qualquer processo do cluster
+    const sockets = await this.server.in(userChannel(userId)).fetchSockets();
+    if (sockets.length > 0) {
+      return;
+    }
+
+    const currentRoom = this.chatService.getCurrentRoom(userId);
     if (currentRoom) {
-      this.chatService.removeUserFromRoom(currentRoom, client.id);
+      this.chatService.removeUserFromRoom(currentRoom, userId);
+      this.chatService.setCurrentRoom(userId, undefined);
       client.leave(currentRoom);
-
-      const room = this.chatService.getRoom(currentRoom);
-      this.server.to(currentRoom).emit('room_users', {
-        roomId: currentRoom,
-        users: room
-          ? Array.from(room.users.values()).map(u => ({ id: u.id, name: u.name }))
-          : [],
-      });
+      this.stopTyping(currentRoom, userId);
+      this.emitRoomUsers(currentRoom);
     }
+
+    this.presenceService.disconnect(userId);
   }
 
   @SubscribeMessage('set_user_name')
   handleSetUserName(client: Socket, userName: string) {
-    this.chatService.setUserName(client.id, userName);
+    const userId = getSocketUserId(client);
+    this.chatService.setUserName(userId, userName);
 
-    const currentRoom = this.userRooms.get(client.id);
+    const currentRoom = this.chatService.getCurrentRoom(userId);
     if (currentRoom) {
-      const room = this.chatService.getRoom(currentRoom);
-      this.server.to(currentRoom).emit('room_users', {
-        roomId: currentRoom,
-        users: room
-          ? Array.from(room.users.values()).map(u => ({ id: u.id, name: u.name }))
-          : [],
-      });
+      this.emitRoomUsers(currentRoom);
     }
   }
 
   @SubscribeMessage('create_room')
-  handleCreateRoom(client: Socket, data: { roomName: string; isPrivate?: boolean; password?: string }) {
+  handleCreateRoom(client: Socket, data: CreateRoomDto) {
+    const userId = getSocketUserId(client);
     const { roomName, isPrivate = false, password } = data;
-    this.chatService.createRoom(roomName, client.id, isPrivate, password);
+    if (this.chatService.isReservedRoomId(roomName)) {
+      client.emit('error', { message: 'Invalid room name' });
+      return;
+    }
+    if (!this.chatService.createRoom(roomName, userId, isPrivate, password)) {
+      client.emit('error', { message: 'Room already exists' });
+      return;
+    }
 
     if (isPrivate) {
-      this.chatService.addUserToPrivateRoom(roomName, client.id);
+      this.chatService.addUserToPrivateRoom(roomName, userId);
     }
 
-    this.server.emit('room_created', {
-      roomId: roomName,
-      isPrivate,
-      creatorId: client.id,
-    });
+    this.notifyRoomCreated(roomName, isPrivate, userId);
   }
 
   @SubscribeMessage('get_rooms')
   handleGetRooms(client: Socket) {
-    const allRooms = this.chatService.getRoomsDetailed();
-    const accessibleRooms = allRooms.filter(room =>
-      this.chatService.canAccessRoom(room.roomId, client.id)
+    const userId = getSocketUserId(client);
+    client.emit('room_list', this.chatService.getAccessibleRooms(userId));
+  }
+
+  @SubscribeMessage('open_dm')
+  handleOpenDm(client: Socket, targetUserId: string) {
+    const userId = getSocketUserId(client);
+    if (!targetUserId || targetUserId === userId) {
+      client.emit('error', { message: 'Invalid user' });
+      return;
+    }
+
+    const roomId = this.chatService.openDirectMessage(userId, targetUserId);
+
+    client.emit('dm_opened', {
+      roomId,
+      participant: {
+        id: targetUserId,
+        name: this.chatService.getUserName(targetUserId),
+      },
+    });
+    this.emitDmList(userId);
+    this.emitDmList(targetUserId);
+  }
+
+  @SubscribeMessage('get_dms')
+  handleGetDms(client: Socket) {
+    client.emit(
+      'dm_list',
+      this.chatService.getDirectMessages(getSocketUserId(client)),
     );
-    client.emit('room_list', accessibleRooms);
   }
 
   @SubscribeMessage('join_room')
-  handleJoinRoom(client: Socket, data: { roomId: string; password?: string }) {
-    const { roomId, password } = data;
+  handleJoinRoom(
+    client: Socket,
+    data: { roomId: string; password?: string; historyLimit?: number },
+  ) {
+    const userId = getSocketUserId(client);
+    const { roomId, password, historyLimit } = data;
 
     const room = this.chatService.getRoom(roomId);
     if (!room) {
@@ -99,116 +147,694 @@ export class ChatGateway
       return;
     }
 
-    if (room.isPrivate && !this.chatService.canAccessRoom(roomId, client.id)) {
+    if (this.chatService.isBanned(roomId, userId)) {
+      client.emit('error', { message: 'Banned from this room' });
+      return;
+    }
+
+    if (room.isPrivate && !this.chatService.canAccessRoom(roomId, userId)) {
       if (password && this.chatService.verifyRoomPassword(roomId, password)) {
-        this.chatService.addUserToPrivateRoom(roomId, client.id);
+        this.chatService.addUserToPrivateRoom(roomId, userId);
       } else {
         client.emit('error', { message: 'Unauthorized' });
         return;
       }
     }
 
-    this.chatService.addUserToRoom(roomId, client.id);
+    this.chatService.addUserToRoom(roomId, userId);
+    this.chatService.setCurrentRoom(userId, roomId);
     client.join(roomId);
 
-    const updatedRoom = this.chatService.getRoom(roomId);
-    const creatorId = this.chatService.getRoomCreator(roomId);
+    this.emitRoomUsers(roomId);
 
-    this.server.to(roomId).emit('room_users', {
+    if (historyLimit && historyLimit > 0) {
+      client.emit('room_history', {
+        roomId,
+        ...this.chatService.getMessages(roomId, { limit: historyLimit }),
+      });
+    }
+
+    client.emit('read_receipts', {
       roomId,
-      users: updatedRoom
-        ? Array.from(updatedRoom.users.values()).map(u => ({ id: u.id, name: u.name }))
-        : [],
-      creatorId,
+      receipts: this.chatService.getReadReceipts(roomId),
     });
   }
 
-  @SubscribeMessage('leave_room')
-  handleLeaveRoom(client: Socket, roomId: string) {
-    this.chatService.removeUserFromRoom(roomId, client.id);
-    client.leave(roomId);
-    this.userRooms.delete(client.id);
+  @SubscribeMessage('get_history')
+  handleGetHistory(
+    client: Socket,
+    data: { roomId: string; before?: string; after?: string; limit?: number },
+  ) {
+    const userId = getSocketUserId(client);
+    const { roomId, before, after, limit } = data;
 
-    const room = this.chatService.getRoom(roomId);
-    const creatorId = this.chatService.getRoomCreator(roomId);
+    if (!this.chatService.getRoom(roomId)) {
+      client.emit('error', { message: 'Room not found' });
+      return;
+    }
 
-    this.server.to(roomId).emit('room_users', {
+    if (!this.chatService.canAccessRoom(roomId, userId)) {
+      client.emit('error', { message: 'Unauthorized' });
+      return;
+    }
+
+    client.emit('room_history', {
       roomId,
-      users: room
-        ? Array.from(room.users.values()).map(u => ({ id: u.id, name: u.name }))
-        : [],
-      creatorId,
+      ...this.chatService.getMessages(roomId, { before, after, limit }),
     });
   }
 
+  @SubscribeMessage('leave_room')
+  handleLeaveRoom(client: Socket, roomId: string) {
+    const userId = getSocketUserId(client);
+    this.chatService.removeUserFromRoom(roomId, userId);
+    client.leave(roomId);
+    this.chatService.setCurrentRoom(userId, undefined);
+    this.stopTyping(roomId, userId);
+
+    this.emitRoomUsers(roomId);
+  }
+
   @SubscribeMessage('send_message')
   handleSendMessage(
     client: Socket,
-    payload: { roomId: string; message: string },
+    payload: {
+      roomId: string;
+      message: string;
+      parentId?: string;
+      attachmentIds?: string[];
+    },
   ) {
-    const userName = this.chatService.getUserName(client.id);
-    const message = {
-      userId: client.id,
-      userName,
-      message: payload.message,
+    const userId = getSocketUserId(client);
+
+    let attachments: AttachmentRef[];
+    try {
+      this.chatService.assertCanPost(payload.roomId, userId);
+      attachments = this.attachmentService.resolveRefs(
+        payload.roomId,
+        userId,
+        payload.attachmentIds,
+      );
+    } catch (error) {
+      client.emit('error', { message: (error as Error).message });
+      return;
+    }
+
+    if (!payload.message && attachments.length === 0) {
+      client.emit('error', { message: 'Empty message' });
+      return;
+    }
+
+    const draft = {
+      userId,
+      userName: this.chatService.getUserName(userId),
+      message: payload.message ?? '',
       timestamp: new Date(),
+      attachments: attachments.length > 0 ? attachments : undefined,
     };
 
-    this.chatService.addMessage(payload.roomId, message);
+    if (payload.parentId) {
+      this.sendReply(client, payload.roomId, payload.parentId, draft);
+      return;
+    }
+
+    const message = this.chatService.addMessage(payload.roomId, draft);
+
+    if (!message) {
+      client.emit('error', { message: 'Room not found' });
+      return;
+    }
+
+    this.stopTyping(payload.roomId, userId);
+    this.notifyNewMessage(payload.roomId, message);
+  }
 
-    this.server.to(payload.roomId).emit('new_message', message);
+  @SubscribeMessage('edit_message')
+  handleEditMessage(
+    client: Socket,
+    data: { roomId: string; messageId: string; message: string },
+  ) {
+    const { roomId, messageId, message } = data;
+
+    try {
+      const updated = this.chatService.editMessage(
+        roomId,
+        messageId,
+        getSocketUserId(client),
+        message,
+      );
+      this.server
+        .to(roomId)
+        .emit('message_updated', { roomId, message: updated });
+    } catch (error) {
+      client.emit('error', { message: (error as Error).message });
+    }
+  }
+
+  @SubscribeMessage('delete_message')
+  handleDeleteMessage(
+    client: Socket,
+    data: { roomId: string; messageId: string },
+  ) {
+    const { roomId, messageId } = data;
+
+    try {
+      const tombstone = this.chatService.deleteMessage(
+        roomId,
+        messageId,
+        getSocketUserId(client),
+      );
+      this.server.to(roomId).emit('message_deleted', {
+        roomId,
+        messageId,
+        deletedAt: tombstone.deletedAt,
+        deletedBy: tombstone.deletedBy,
+      });
+
+      const parent = tombstone.parentId
+        ? this.chatService
+            .getRoom(roomId)
+            ?.messages.find((m) => m.id === tombstone.parentId)
+        : undefined;
+      if (parent) {
+        this.server.to(roomId).emit('thread_updated', {
+          roomId,
+          parentId: parent.id,
+          replyCount: parent.replyCount,
+          lastReplyAt: parent.lastReplyAt,
+        });
+      }
+    } catch (error) {
+      client.emit('error', { message: (error as Error).message });
+    }
+  }
+
+  @SubscribeMessage('add_reaction')
+  handleAddReaction(
+    client: Socket,
+    data: { roomId: string; messageId: string; emoji: string },
+  ) {
+    const { roomId, messageId, emoji } = data;
+
+    try {
+      const reactions = this.chatService.addReaction(
+        roomId,
+        messageId,
+        getSocketUserId(client),
+        emoji,
+      );
+      this.server
+        .to(roomId)
+        .emit('reactions_updated', { roomId, messageId, reactions });
+    } catch (error) {
+      client.emit('error', { message: (error as Error).message });
+    }
+  }
+
+  @SubscribeMessage('remove_reaction')
+  handleRemoveReaction(
+    client: Socket,
+    data: { roomId: string; messageId: string; emoji: string },
+  ) {
+    const { roomId, messageId, emoji } = data;
+
+    try {
+      const reactions = this.chatService.removeReaction(
+        roomId,
+        messageId,
+        getSocketUserId(client),
+        emoji,
+      );
+      this.server
+        .to(roomId)
+        .emit('reactions_updated', { roomId, messageId, reactions });
+    } catch (error) {
+      client.emit('error', { message: (error as Error).message });
+    }
+  }
+
+  @SubscribeMessage('mark_read')
+  handleMarkRead(client: Socket, data: { roomId: string; messageId?: string }) {
+    const userId = getSocketUserId(client);
+    const { roomId, messageId } = data;
+
+    if (!this.chatService.canAccessRoom(roomId, userId)) {
+      client.emit('error', { message: 'Unauthorized' });
+      return;
+    }
+
+    const marker = this.chatService.markRead(roomId, userId, messageId);
+    if (!marker) return;
+
+    this.server.to(roomId).emit('message_read', { roomId, userId, ...marker });
+    this.server.to(userChannel(userId)).emit('unread_count', {
+      roomId,
+      unreadCount: this.chatService.getUnreadCount(roomId, userId),
+    });
+  }
+
+  @SubscribeMessage('typing_start')
+  handleTypingStart(client: Socket, roomId: string) {
+    const userId = getSocketUserId(client);
+    if (this.chatService.getCurrentRoom(userId) !== roomId) return;
+
+    const started = this.presenceService.startTyping(roomId, userId, () =>
+      this.emitTyping(roomId, userId, false),
+    );
+    if (started) {
+      this.emitTyping(roomId, userId, true);
+    }
+  }
+
+  @SubscribeMessage('typing_stop')
+  handleTypingStop(client: Socket, roomId: string) {
+    this.stopTyping(roomId, getSocketUserId(client));
+  }
+
+  @SubscribeMessage('set_presence')
+  handleSetPresence(client: Socket, status: PresenceStatus) {
+    if (!PRESENCE_STATUSES.includes(status)) {
+      client.emit('error', { message: 'Invalid presence status' });
+      return;
+    }
+
+    const userId = getSocketUserId(client);
+    this.presenceService.setStatus(userId, status);
+    this.emitPresenceChange(userId);
+  }
+
+  @SubscribeMessage('heartbeat')
+  handleHeartbeat(client: Socket) {
+    const userId = getSocketUserId(client);
+    const changed = this.presenceService.heartbeat(userId, () =>
+      this.emitPresenceChange(userId),
+    );
+    if (changed) {
+      this.emitPresenceChange(userId);
+    }
+  }
+
+  @SubscribeMessage('get_thread')
+  handleGetThread(
+    client: Socket,
+    data: {
+      roomId: string;
+      parentId: string;
+      before?: string;
+      after?: string;
+      limit?: number;
+    },
+  ) {
+    const userId = getSocketUserId(client);
+    const { roomId, parentId, before, after, limit } = data;
+
+    if (!this.chatService.canAccessRoom(roomId, userId)) {
+      client.emit('error', { message: 'Unauthorized' });
+      return;
+    }
+
+    const parent = this.chatService
+      .getRoom(roomId)
+      ?.messages.find((m) => m.id === parentId);
+    if (!parent) {
+      client.emit('error', { message: 'Message not found' });
+      return;
+    }
+
+    client.emit('thread_history', {
+      roomId,
+      parent,
+      ...this.chatService.getMessages(roomId, {
+        before,
+        after,
+        limit,
+        parentId,
+      }),
+    });
+  }
+
+  @SubscribeMessage('search_messages')
+  handleSearchMessages(
+    client: Socket,
+    data: {
+      query: string;
+      roomId?: string;
+      userId?: string;
+      from?: string;
+      to?: string;
+      limit?: number;
+    },
+  ) {
+    const from = data.from ? new Date(data.from) : undefined;
+    const to = data.to ? new Date(data.to) : undefined;
+    if ([from, to].some((date) => date && Number.isNaN(date.getTime()))) {
+      client.emit('error', { message: 'Invalid date' });
+      return;
+    }
+
+    try {
+      const results = this.chatService.searchMessages(getSocketUserId(client), {
+        query: String(data.query ?? ''),
+        roomId: data.roomId,
+        authorId: data.userId,
+        from,
+        to,
+        limit: data.limit,
+      });
+      client.emit('search_results', { query: data.query, results });
+    } catch (error) {
+      client.emit('error', { message: (error as Error).message });
+    }
   }
 
   @SubscribeMessage('add_user_to_private_room')
-  handleAddUserToPrivateRoom(client: Socket, data: { roomId: string; userId: string }) {
+  handleAddUserToPrivateRoom(
+    client: Socket,
+    data: { roomId: string; userId: string },
+  ) {
     const { roomId, userId } = data;
     const room = this.chatService.getRoom(roomId);
 
-    if (!room || !room.isPrivate) {
+    if (!room || !room.isPrivate || room.isDirect) {
       client.emit('error', { message: 'Invalid room' });
       return;
     }
 
-    this.chatService.addUserToPrivateRoom(roomId, userId);
+    if (!this.chatService.canModerate(roomId, getSocketUserId(client))) {
+      client.emit('error', { message: 'Unauthorized' });
+      return;
+    }
+
+    if (!this.chatService.addUserToPrivateRoom(roomId, userId)) {
+      client.emit('error', { message: 'Banned from this room' });
+      return;
+    }
     this.server.emit('room_list_updated');
   }
 
+  @SubscribeMessage('create_invite')
+  handleCreateInvite(
+    client: Socket,
+    data: { roomId: string } & CreateInviteOptions,
+  ) {
+    const { roomId, ...options } = data;
+
+    try {
+      const invite = this.inviteService.createInvite(
+        roomId,
+        getSocketUserId(client),
+        options,
+      );
+      client.emit('invite_created', invite);
+    } catch (error) {
+      client.emit('error', { message: (error as Error).message });
+    }
+  }
+
+  @SubscribeMessage('redeem_invite')
+  handleRedeemInvite(client: Socket, code: string) {
+    const userId = getSocketUserId(client);
+
+    try {
+      const { roomId } = this.inviteService.redeemInvite(code, userId);
+      client.emit('invite_redeemed', { roomId });
+      this.handleGetRooms(client);
+    } catch (error) {
+      client.emit('error', { message: (error as Error).message });
+    }
+  }
+
   @SubscribeMessage('remove_room')
   handleRemoveRoom(client: Socket, roomId: string) {
-    if (!this.chatService.isRoomCreator(roomId, client.id)) {
+    const userId = getSocketUserId(client);
+    if (!this.chatService.isRoomCreator(roomId, userId)) {
       client.emit('error', { message: 'Apenas o criador pode deletar a sala' });
       return;
     }
 
     this.chatService.removeRoom(roomId);
-    this.server.emit('room_removed', roomId);
+    this.notifyRoomRemoved(roomId);
   }
 
+  /** Kick: remove o usuário e o impede de voltar por alguns minutos. */
   @SubscribeMessage('remove_user_from_room')
-  handleRemoveUserFromRoom(client: Socket, data: { roomId: string; userId: string }) {
+  handleRemoveUserFromRoom(
+    client: Socket,
+    data: { roomId: string; userId: string },
+  ) {
     const { roomId, userId } = data;
 
-    if (!this.chatService.isRoomCreator(roomId, client.id)) {
-      client.emit('error', { message: 'Apenas o criador pode remover usuários' });
+    try {
+      this.chatService.kickUser(roomId, getSocketUserId(client), userId);
+      this.evictUser(roomId, userId);
+      this.server.to(userChannel(userId)).emit('removed_from_room', roomId);
+    } catch (error) {
+      client.emit('error', { message: (error as Error).message });
+    }
+  }
+
+  @SubscribeMessage('ban_user')
+  handleBanUser(
+    client: Socket,
+    data: { roomId: string; userId: string; durationSeconds?: number },
+  ) {
+    const { roomId, userId, durationSeconds } = data;
+
+    try {
+      const until = this.chatService.banUser(
+        roomId,
+        getSocketUserId(client),
+        userId,
+        durationSeconds,
+      );
+      this.evictUser(roomId, userId);
+      this.server
+        .to(userChannel(userId))
+        .emit('banned_from_room', { roomId, until });
+    } catch (error) {
+      client.emit('error', { message: (error as Error).message });
+    }
+  }
+
+  @SubscribeMessage('unban_user')
+  handleUnbanUser(client: Socket, data: { roomId: string; userId: string }) {
+    try {
+      this.chatService.unbanUser(
+        data.roomId,
+        getSocketUserId(client),
+        data.userId,
+      );
+      client.emit('user_unbanned', {
+        roomId: data.roomId,
+        userId: data.userId,
+      });
+    } catch (error) {
+      client.emit('error', { message: (error as Error).message });
+    }
+  }
+
+  @SubscribeMessage('mute_user')
+  handleMuteUser(
+    client: Socket,
+    data: { roomId: string; userId: string; durationSeconds: number },
+  ) {
+    const { roomId, userId, durationSeconds } = data;
+
+    try {
+      const until = this.chatService.muteUser(
+        roomId,
+        getSocketUserId(client),
+        userId,
+        durationSeconds,
+      );
+      this.stopTyping(roomId, userId);
+      this.server.to(roomId).emit('user_muted', { roomId, userId, until });
+    } catch (error) {
+      client.emit('error', { message: (error as Error).message });
+    }
+  }
+
+  @SubscribeMessage('unmute_user')
+  handleUnmuteUser(client: Socket, data: { roomId: string; userId: string }) {
+    const { roomId, userId } = data;
+
+    try {
+      this.chatService.unmuteUser(roomId, getSocketUserId(client), userId);
+      this.server.to(roomId).emit('user_unmuted', { roomId, userId });
+    } catch (error) {
+      client.emit('error', { message: (error as Error).message });
+    }
+  }
+
+  @SubscribeMessage('promote')
+  handlePromote(client: Socket, data: { roomId: string; userId: string }) {
+    this.changeRole(client, data.roomId, data.userId, true);
+  }
+
+  @SubscribeMessage('demote')
+  handleDemote(client: Socket, data: { roomId: string; userId: string }) {
+    this.changeRole(client, data.roomId, data.userId, false);
+  }
+
+  notifyRoomCreated(roomId: string, isPrivate: boolean, creatorId: string) {
+    this.server.emit('room_created', { roomId, isPrivate, creatorId });
+  }
+
+  notifyRoomRemoved(roomId: string) {
+    this.server.emit('room_removed', roomId);
+  }
+
+  notifyNewMessage(roomId: string, message: Message) {
+    this.server.to(roomId).emit('new_message', message);
+    this.notifyMentions(roomId, message);
+
+    // Conversas diretas: atualiza a prévia de quem não está com ela aberta
+    const room = this.chatService.getRoom(roomId);
+    if (room?.isDirect) {
+      room.allowedUsers?.forEach((id) => this.emitDmList(id));
+    }
+  }
+
+  /**
+   * Respostas vão só para os participantes da thread; a sala recebe apenas
+   * os contadores atualizados da mensagem raiz.
+   */
+  notifyThreadReply(roomId: string, reply: Message, parent: Message) {
+    const participants = this.chatService.getThreadParticipants(
+      roomId,
+      parent.id,
+    );
+
+    this.server
+      .to(participants.map(userChannel))
+      .emit('thread_reply', { roomId, parentId: parent.id, message: reply });
+    this.server.to(roomId).emit('thread_updated', {
+      roomId,
+      parentId: parent.id,
+      replyCount: parent.replyCount,
+      lastReplyAt: parent.lastReplyAt,
+    });
+    this.notifyMentions(roomId, reply);
+  }
+
+  /** Avisa cada usuário citado em todas as suas conexões, mesmo em outra sala. */
+  notifyMentions(roomId: string, message: Message) {
+    const targets = this.chatService.getMentionTargets(roomId, message);
+    if (targets.length === 0) return;
+
+    this.server.to(targets.map(userChannel)).emit('mentioned', {
+      roomId,
+      message,
+      by: { id: message.userId, name: message.userName },
+    });
+  }
+
+  private sendReply(
+    client: Socket,
+    roomId: string,
+    parentId: string,
+    draft: Omit<Message, 'id' | 'parentId'>,
+  ) {
+    if (!this.chatService.canAccessRoom(roomId, draft.userId)) {
+      client.emit('error', { message: 'Unauthorized' });
       return;
     }
 
-    this.chatService.removeUserFromRoom(roomId, userId);
-    const user = this.server.sockets.sockets.get(userId);
-    if (user) {
-      user.leave(roomId);
-      user.emit('removed_from_room', roomId);
+    try {
+      const { reply, parent } = this.chatService.addReply(
+        roomId,
+        parentId,
+        draft,
+      );
+
+      this.stopTyping(roomId, draft.userId);
+      this.notifyThreadReply(roomId, reply, parent);
+    } catch (error) {
+      client.emit('error', { message: (error as Error).message });
+    }
+  }
+
+  private changeRole(
+    client: Socket,
+    roomId: string,
+    userId: string,
+    isModerator: boolean,
+  ) {
+    try {
+      const role = this.chatService.setModerator(
+        roomId,
+        getSocketUserId(client),
+        userId,
+        isModerator,
+      );
+      this.server
+        .to([roomId, userChannel(userId)])
+        .emit('role_changed', { roomId, userId, role });
+      this.emitRoomUsers(roomId);
+    } catch (error) {
+      client.emit('error', { message: (error as Error).message });
+    }
+  }
+
+  /** Tira todos os sockets do usuário da sala após kick ou ban. */
+  private evictUser(roomId: string, userId: string) {
+    this.server.in(userChannel(userId)).socketsLeave(roomId);
+    this.stopTyping(roomId, userId);
+    if (this.chatService.getCurrentRoom(userId) === roomId) {
+      this.chatService.setCurrentRoom(userId, undefined);
     }
 
+    this.emitRoomUsers(roomId);
+    this.server
+      .to(userChannel(userId))
+      .emit('room_list', this.chatService.getAccessibleRooms(userId));
+  }
+
+  private emitDmList(userId: string) {
+    this.server
+      .to(userChannel(userId))
+      .emit('dm_list', this.chatService.getDirectMessages(userId));
+  }
+
+  private emitRoomUsers(roomId: string) {
     const room = this.chatService.getRoom(roomId);
-    const creatorId = this.chatService.getRoomCreator(roomId);
 
     this.server.to(roomId).emit('room_users', {
       roomId,
       users: room
-        ? Array.from(room.users.values()).map(u => ({ id: u.id, name: u.name }))
+        ? Array.from(room.users.values()).map((u) => ({
+            id: u.id,
+            name: this.chatService.getUserName(u.id),
+            status: this.presenceService.getStatus(u.id),
+            role: this.chatService.getRole(roomId, u.id),
+          }))
         : [],
-      creatorId,
+      creatorId: room?.creatorId ?? null,
     });
   }
+
+  private emitPresenceChange(userId: string) {
+    const currentRoom = this.chatService.getCurrentRoom(userId);
+    if (currentRoom) {
+      this.emitRoomUsers(currentRoom);
+    }
+  }
+
+  private stopTyping(roomId: string, userId: string) {
+    if (this.presenceService.stopTyping(roomId, userId)) {
+      this.emitTyping(roomId, userId, false);
+    }
+  }
+
+  private emitTyping(roomId: string, userId: string, isTyping: boolean) {
+    this.server
+      .to(roomId)
+      .except(userChannel(userId))
+      .emit('user_typing', {
+        roomId,
+        userId,
+        userName: this.chatService.getUserName(userId),
+        isTyping,
+      });
+  }
 }
@@ -1,8 +1,33 @@
 import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { RateLimitModule } from '../rate-limit/rate-limit.module';
+import { AttachmentService } from './attachment.service';
+import { AttachmentsController } from './attachments.controller';
 import { ChatGateway } from './chat.gateway';
 import { ChatService } from './chat.service';
+import { InviteService } from './invite.service';
+import { InvitesController } from './invites.controller';
+import { PresenceService } from './presence.service';
+import { chatRepositoryProvider } from './repositories/chat-repository.provider';
+import { RoomsController } from './rooms.controller';
+import { SearchController } from './search.controller';
 
 @Module({
-  providers: [ChatGateway, ChatService],
+  imports: [AuthModule, RateLimitModule],
+  controllers: [
+    RoomsController,
+    InvitesController,
+    AttachmentsController,
+    SearchController,
+  ],
+  providers: [
+    ChatGateway,
+    ChatService,
+    InviteService,
+    PresenceService,
+    AttachmentService,
+    chatRepositoryProvider,
+  ],
+  exports: [ChatService],
 })
 export class ChatModule {}
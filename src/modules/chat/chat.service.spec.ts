@@ -0,0 +1,362 @@
+import { ForbiddenException } from '@nestjs/common';
+import { ChatService, KICK_BAN_SECONDS } from './chat.service';
+import { InMemoryChatRepository } from './repositories/in-memory-chat.repository';
+
+describe('ChatService', () => {
+  let service: ChatService;
+
+  beforeEach(() => {
+    service = new ChatService(new InMemoryChatRepository());
+    service.createRoom('geral', 'owner');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('assertCanPost', () => {
+    it('lets members of a public room post', () => {
+      expect(() => service.assertCanPost('geral', 'alice')).not.toThrow();
+    });
+
+    it('rejects banned users', () => {
+      service.banUser('geral', 'owner', 'alice');
+
+      expect(() => service.assertCanPost('geral', 'alice')).toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('rejects kicked users until the kick expires', () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      service.kickUser('geral', 'owner', 'alice');
+
+      expect(() => service.assertCanPost('geral', 'alice')).toThrow(
+        'Unauthorized',
+      );
+
+      jest.advanceTimersByTime(KICK_BAN_SECONDS * 1000 + 1);
+      expect(() => service.assertCanPost('geral', 'alice')).not.toThrow();
+    });
+
+    it('rejects users outside a private room', () => {
+      service.createRoom('secreta', 'owner', true);
+      service.addUserToPrivateRoom('secreta', 'owner');
+
+      expect(() => service.assertCanPost('secreta', 'alice')).toThrow(
+        'Unauthorized',
+      );
+      expect(() => service.assertCanPost('secreta', 'owner')).not.toThrow();
+    });
+
+    it('rejects third parties in direct messages', () => {
+      const roomId = service.openDirectMessage('alice', 'bob');
+
+      expect(() => service.assertCanPost(roomId, 'bob')).not.toThrow();
+      expect(() => service.assertCanPost(roomId, 'mallory')).toThrow(
+        'Unauthorized',
+      );
+    });
+
+    it('rejects muted users until they are unmuted', () => {
+      service.muteUser('geral', 'owner', 'alice', 60);
+
+      expect(() => service.assertCanPost('geral', 'alice')).toThrow(
+        /^Muted until/,
+      );
+
+      service.unmuteUser('geral', 'owner', 'alice');
+      expect(() => service.assertCanPost('geral', 'alice')).not.toThrow();
+    });
+  });
+
+  describe('direct messages', () => {
+    it('gives no role to either participant', () => {
+      const roomId = service.openDirectMessage('alice', 'bob');
+
+      expect(service.getRole(roomId, 'alice')).toBe('member');
+      expect(service.getRole(roomId, 'bob')).toBe('member');
+      expect(service.isRoomCreator(roomId, 'alice')).toBe(false);
+    });
+
+    it('never lets a third user in', () => {
+      const roomId = service.openDirectMessage('alice', 'bob');
+
+      expect(service.addUserToPrivateRoom(roomId, 'mallory')).toBe(false);
+      expect(service.canAccessRoom(roomId, 'mallory')).toBe(false);
+    });
+  });
+
+  describe('getMessages', () => {
+    let ids: string[];
+
+    beforeEach(() => {
+      ids = [0, 1, 2, 3, 4].map(
+        (minute) =>
+          service.addMessage('geral', {
+            userId: 'alice',
+            userName: 'alice',
+            message: `m${minute}`,
+            timestamp: new Date(Date.UTC(2026, 0, 1, 0, minute)),
+          })!.id,
+      );
+    });
+
+    const texts = (page: { messages: { message: string }[] }) =>
+      page.messages.map((m) => m.message);
+
+    it('returns the most recent page by default', () => {
+      const page = service.getMessages('geral', { limit: 2 });
+
+      expect(texts(page)).toEqual(['m3', 'm4']);
+      expect(page.hasMore).toBe(true);
+    });
+
+    it('pages backwards from a message id', () => {
+      const page = service.getMessages('geral', { before: ids[3], limit: 2 });
+
+      expect(texts(page)).toEqual(['m1', 'm2']);
+      expect(page.hasMore).toBe(true);
+
+      const last = service.getMessages('geral', { before: ids[1], limit: 2 });
+      expect(texts(last)).toEqual(['m0']);
+      expect(last.hasMore).toBe(false);
+    });
+
+    it('pages forwards from a message id', () => {
+      const page = service.getMessages('geral', { after: ids[0], limit: 2 });
+
+      expect(texts(page)).toEqual(['m1', 'm2']);
+      expect(page.hasMore).toBe(true);
+
+      const last = service.getMessages('geral', { after: ids[2], limit: 2 });
+      expect(texts(last)).toEqual(['m3', 'm4']);
+      expect(last.hasMore).toBe(false);
+    });
+
+    it('accepts ISO timestamps as cursors', () => {
+      const page = service.getMessages('geral', {
+        after: '2026-01-01T00:01:00Z',
+        before: '2026-01-01T00:04:00Z',
+      });
+
+      expect(texts(page)).toEqual(['m2', 'm3']);
+      expect(page.hasMore).toBe(false);
+    });
+
+    it('clamps the page size', () => {
+      expect(texts(service.getMessages('geral', { limit: 0 }))).toEqual(['m4']);
+    });
+
+    it('keeps thread replies out of the room timeline', () => {
+      service.addReply('geral', ids[4], {
+        userId: 'bob',
+        userName: 'bob',
+        message: 'reply',
+        timestamp: new Date(Date.UTC(2026, 0, 1, 0, 5)),
+      });
+
+      expect(texts(service.getMessages('geral', { limit: 1 }))).toEqual(['m4']);
+      expect(texts(service.getMessages('geral', { parentId: ids[4] }))).toEqual(
+        ['reply'],
+      );
+    });
+  });
+
+  describe('threads and unread counts', () => {
+    const post = (userId: string, message: string) =>
+      service.addMessage('geral', {
+        userId,
+        userName: userId,
+        message,
+        timestamp: new Date(),
+      })!;
+    const reply = (parentId: string, userId: string, message: string) =>
+      service.addReply('geral', parentId, {
+        userId,
+        userName: userId,
+        message,
+        timestamp: new Date(),
+      });
+
+    it('decrements the reply count when a reply is deleted', () => {
+      const root = post('alice', 'root');
+      const { reply: first } = reply(root.id, 'bob', 'one');
+      const { parent } = reply(root.id, 'bob', 'two');
+      expect(parent.replyCount).toBe(2);
+
+      service.deleteMessage('geral', first.id, 'bob');
+
+      const stored = service
+        .getRoom('geral')!
+        .messages.find((m) => m.id === root.id)!;
+      expect(stored.replyCount).toBe(1);
+    });
+
+    it('leaves the reply count alone when a root message is deleted', () => {
+      const root = post('alice', 'root');
+      const other = post('alice', 'other');
+      reply(root.id, 'bob', 'one');
+
+      service.deleteMessage('geral', other.id, 'alice');
+
+      const stored = service
+        .getRoom('geral')!
+        .messages.find((m) => m.id === root.id)!;
+      expect(stored.replyCount).toBe(1);
+    });
+
+    it('counts only live timeline messages from other users as unread', () => {
+      const read = post('alice', 'read');
+      service.markRead('geral', 'bob', read.id);
+
+      const root = post('alice', 'root');
+      reply(root.id, 'alice', 'in thread');
+      const deleted = post('alice', 'deleted');
+      service.deleteMessage('geral', deleted.id, 'alice');
+      post('bob', 'own');
+
+      expect(service.getUnreadCount('geral', 'bob')).toBe(1);
+    });
+  });
+
+  describe('editing and deleting', () => {
+    let messageId: string;
+
+    beforeEach(() => {
+      service.setModerator('geral', 'owner', 'mod', true);
+      messageId = service.addMessage('geral', {
+        userId: 'alice',
+        userName: 'alice',
+        message: 'oi',
+        timestamp: new Date(),
+      })!.id;
+    });
+
+    it('stops a muted author from editing or deleting', () => {
+      service.muteUser('geral', 'owner', 'alice', 60);
+
+      expect(() =>
+        service.editMessage('geral', messageId, 'alice', 'novo'),
+      ).toThrow(/^Muted until/);
+      expect(() => service.deleteMessage('geral', messageId, 'alice')).toThrow(
+        /^Muted until/,
+      );
+    });
+
+    it('stops a banned author from editing or deleting', () => {
+      service.banUser('geral', 'owner', 'alice');
+
+      expect(() =>
+        service.editMessage('geral', messageId, 'alice', 'novo'),
+      ).toThrow(ForbiddenException);
+      expect(() => service.deleteMessage('geral', messageId, 'alice')).toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('lets moderators delete but not edit messages from others', () => {
+      expect(() =>
+        service.editMessage('geral', messageId, 'mod', 'novo'),
+      ).toThrow('Apenas o autor pode editar a mensagem');
+
+      expect(service.deleteMessage('geral', messageId, 'mod').deletedBy).toBe(
+        'mod',
+      );
+    });
+  });
+
+  describe('moderation ranks', () => {
+    beforeEach(() => {
+      service.setModerator('geral', 'owner', 'mod', true);
+    });
+
+    it('lets moderators act on members only', () => {
+      expect(() => service.muteUser('geral', 'mod', 'alice', 60)).not.toThrow();
+      expect(() => service.banUser('geral', 'mod', 'owner')).toThrow(
+        ForbiddenException,
+      );
+      expect(() => service.kickUser('geral', 'alice', 'mod')).toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('drops the moderator role of banned users', () => {
+      service.banUser('geral', 'owner', 'mod');
+
+      expect(service.getRole('geral', 'mod')).toBe('member');
+      expect(service.canAccessRoom('geral', 'mod')).toBe(false);
+    });
+  });
+
+  describe('mentions', () => {
+    const post = (userId: string, text: string) =>
+      service.addMessage('geral', {
+        userId,
+        userName: service.getUserName(userId),
+        message: text,
+        timestamp: new Date(),
+      })!;
+
+    beforeEach(() => {
+      service.setUserName('alice-id', 'Alice');
+      service.setUserName('bob-id', 'Bob');
+      service.addUserToRoom('geral', 'alice-id');
+      service.addUserToRoom('geral', 'bob-id');
+    });
+
+    it('resolves @name and @userId to room members', () => {
+      expect(post('owner', 'oi @alice, tudo bem?').mentions).toEqual([
+        'alice-id',
+      ]);
+      expect(post('owner', '@bob-id olha isso').mentions).toEqual(['bob-id']);
+      expect(post('owner', '@ALICE e @Bob!').mentions).toEqual([
+        'alice-id',
+        'bob-id',
+      ]);
+    });
+
+    it('ignores partial handles, e-mails and people outside the room', () => {
+      service.setUserName('carol-id', 'Carol');
+
+      expect(post('owner', '@alicex alice@example.com @carol').mentions).toBe(
+        undefined,
+      );
+    });
+
+    it('lets only moderators broadcast with @room and @here', () => {
+      expect(post('alice-id', '@room @here atenção').broadcastMention).toBe(
+        undefined,
+      );
+      expect(post('owner', '@here atenção').broadcastMention).toBe('here');
+      expect(post('owner', '@here e @room atenção').broadcastMention).toBe(
+        'room',
+      );
+    });
+
+    it('notifies who is in the room for @here and every member for @room', () => {
+      post('carol-id', 'já estive aqui');
+      service.removeUserFromRoom('geral', 'carol-id');
+
+      const here = post('owner', '@here reunião');
+      const everyone = post('owner', '@room reunião');
+
+      expect(service.getMentionTargets('geral', here).sort()).toEqual([
+        'alice-id',
+        'bob-id',
+      ]);
+      expect(service.getMentionTargets('geral', everyone).sort()).toEqual([
+        'alice-id',
+        'bob-id',
+        'carol-id',
+      ]);
+    });
+
+    it('never notifies the author', () => {
+      const message = post('alice-id', 'eu mesma, @alice');
+
+      expect(message.mentions).toEqual(['alice-id']);
+      expect(service.getMentionTargets('geral', message)).toEqual([]);
+    });
+  });
+});
@@ -1,129 +1,911 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  GoneException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  Attachment,
+  Message,
+  MessagePage,
+  MessagePageOptions,
+  MessageSearchHit,
+  MessageSearchOptions,
+  Room,
+  RoomRole,
+} from './interfaces/chat.interfaces';
+import {
+  buildSnippet,
+  MessageSearchIndex,
+  tokenize,
+} from './message-search-index';
+import { ChatRepository } from './repositories/chat.repository';
+import { hashRoomPassword, verifyRoomPasswordHash } from './room-password';
 
-interface Message {
-  userId: string;
-  userName: string;
-  message: string;
-  timestamp: Date;
-}
+export const DEFAULT_HISTORY_PAGE_SIZE = 50;
+export const MAX_HISTORY_PAGE_SIZE = 100;
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+export const MAX_REACTION_LENGTH = 32;
+/** Por quanto tempo quem leva kick fica impedido de voltar. */
+export const KICK_BAN_SECONDS = 5 * 60;
+export const MAX_MUTE_SECONDS = 60 * 60 * 24 * 7;
 
-interface RoomUser {
-  id: string;
-  name: string;
-}
+const ROLE_RANK: Record<RoomRole, number> = {
+  owner: 2,
+  moderator: 1,
+  member: 0,
+};
 
-interface Room {
-  users: Map<string, RoomUser>;
-  messages: Message[];
-  isPrivate: boolean;
-  password?: string;
-  allowedUsers?: Set<string>;
-  creatorId: string;
-}
+const DIRECT_ROOM_PREFIX = 'dm:';
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
 @Injectable()
 export class ChatService {
-  private rooms = new Map<string, Room>();
-  private userNames = new Map<string, string>();
+  private readonly searchIndex = new MessageSearchIndex();
+
+  constructor(private readonly repository: ChatRepository) {
+    // Repositórios persistentes já chegam com mensagens
+    for (const [roomId, room] of repository.getRoomEntries()) {
+      room.messages.forEach((m) => this.searchIndex.add(roomId, m));
+    }
+
+    // No modo cluster, mensagens de outros processos também entram no índice
+    repository.onRemoteChange((change) => {
+      switch (change.type) {
+        case 'room_deleted':
+          this.searchIndex.removeRoom(change.roomId);
+          break;
+        case 'message':
+        case 'message_updated':
+          if (change.message.deletedAt) {
+            this.searchIndex.remove(change.roomId, change.message.id);
+          } else {
+            this.searchIndex.add(change.roomId, change.message);
+          }
+          break;
+      }
+    });
+  }
+
+  isReservedRoomId(roomId: string) {
+    return roomId.startsWith(DIRECT_ROOM_PREFIX);
+  }
+
+  createRoom(
+    roomId: string,
+    creatorId: string,
+    isPrivate = false,
+    password?: string,
+  ) {
+    if (this.repository.getRoom(roomId)) return false;
+
+    this.repository.saveRoom(roomId, {
+      users: new Map(),
+      messages: [],
+      isPrivate,
+      passwordHash: password ? hashRoomPassword(password) : undefined,
+      allowedUsers: new Set(),
+      creatorId,
+    });
+    return true;
+  }
+
+  /**
+   * Cria (ou reaproveita) a conversa direta entre os dois usuários: uma sala
+   * privada oculta com id determinístico e só os dois em `allowedUsers`.
+   * Quem abre fica em `creatorId` só como registro: na DM ninguém tem cargo.
+   */
+  openDirectMessage(userId: string, targetUserId: string) {
+    const roomId = DIRECT_ROOM_PREFIX + [userId, targetUserId].sort().join(':');
 
-  createRoom(roomId: string, creatorId: string, isPrivate = false, password?: string) {
-    if (!this.rooms.has(roomId)) {
-      this.rooms.set(roomId, {
+    if (!this.repository.getRoom(roomId)) {
+      this.repository.saveRoom(roomId, {
         users: new Map(),
         messages: [],
-        isPrivate,
-        password,
-        allowedUsers: new Set(),
-        creatorId,
+        isPrivate: true,
+        isDirect: true,
+        allowedUsers: new Set([userId, targetUserId]),
+        creatorId: userId,
       });
     }
+
+    return roomId;
+  }
+
+  getDirectMessages(userId: string) {
+    return this.repository
+      .getRoomEntries()
+      .filter(([, room]) => room.isDirect && room.allowedUsers?.has(userId))
+      .map(([roomId, room]) => {
+        const otherId =
+          [...room.allowedUsers!].find((id) => id !== userId) ?? userId;
+        const lastMessage = room.messages.filter((m) => !m.parentId).at(-1);
+
+        return {
+          roomId,
+          participant: { id: otherId, name: this.getUserName(otherId) },
+          lastMessage: lastMessage
+            ? {
+                id: lastMessage.id,
+                userId: lastMessage.userId,
+                preview: lastMessage.message.slice(0, 100),
+                timestamp: lastMessage.timestamp,
+              }
+            : null,
+          unreadCount: this.getUnreadCount(roomId, userId),
+        };
+      })
+      .sort(
+        (a, b) =>
+          (b.lastMessage?.timestamp.getTime() ?? 0) -
+          (a.lastMessage?.timestamp.getTime() ?? 0),
+      );
   }
 
   setUserName(userId: string, userName: string) {
-    this.userNames.set(userId, userName);
+    this.repository.saveUserName(userId, userName);
   }
 
   getUserName(userId: string) {
-    return this.userNames.get(userId) || `User ${userId.slice(0, 6)}`;
+    return this.repository.getUserName(userId) || `User ${userId.slice(0, 6)}`;
+  }
+
+  /** Sala aberta pelo usuário, compartilhada entre os processos do cluster. */
+  getCurrentRoom(userId: string) {
+    return this.repository.getUserRoom(userId);
+  }
+
+  setCurrentRoom(userId: string, roomId: string | undefined) {
+    this.repository.saveUserRoom(userId, roomId);
   }
 
   removeRoom(roomId: string) {
-    this.rooms.delete(roomId);
+    this.repository.deleteRoom(roomId);
+    this.searchIndex.removeRoom(roomId);
   }
 
   addUserToRoom(roomId: string, userId: string) {
-    const room = this.rooms.get(roomId);
+    const room = this.repository.getRoom(roomId);
     if (!room) return;
 
     const userName = this.getUserName(userId);
     room.users.set(userId, { id: userId, name: userName });
+    this.repository.saveRoom(roomId, room);
   }
 
   removeUserFromRoom(roomId: string, userId: string) {
-    const room = this.rooms.get(roomId);
+    const room = this.repository.getRoom(roomId);
     if (!room) return;
 
     room.users.delete(userId);
+    this.repository.saveRoom(roomId, room);
   }
 
-  addMessage(roomId: string, message: Message) {
-    const room = this.rooms.get(roomId);
+  addMessage(roomId: string, message: Omit<Message, 'id'>) {
+    const room = this.repository.getRoom(roomId);
     if (!room) return;
 
-    room.messages.push(message);
+    const stored: Message = {
+      id: randomUUID(),
+      ...message,
+      ...this.resolveMentions(roomId, message.userId, message.message),
+    };
+    this.repository.appendMessage(roomId, stored);
+    this.searchIndex.add(roomId, stored);
+    return stored;
+  }
+
+  /**
+   * Membros da sala: quem está nela agora, quem tem acesso à sala privada e
+   * quem já escreveu nela.
+   */
+  getRoomMemberIds(roomId: string) {
+    const room = this.repository.getRoom(roomId);
+    if (!room) return [];
+
+    return [
+      ...new Set([
+        ...room.users.keys(),
+        ...(room.allowedUsers ?? []),
+        ...room.messages.map((m) => m.userId),
+      ]),
+    ];
+  }
+
+  /** Usuários que devem ser notificados pelas menções da mensagem. */
+  getMentionTargets(roomId: string, message: Message) {
+    const room = this.repository.getRoom(roomId);
+    if (!room) return [];
+
+    const targets = new Set(message.mentions ?? []);
+    if (message.broadcastMention === 'here') {
+      room.users.forEach((_user, id) => targets.add(id));
+    } else if (message.broadcastMention === 'room') {
+      this.getRoomMemberIds(roomId).forEach((id) => targets.add(id));
+    }
+
+    targets.delete(message.userId);
+    return [...targets];
+  }
+
+  private resolveMentions(roomId: string, authorId: string, text: string) {
+    if (!text.includes('@')) return {};
+
+    const mentionedAt = (handle: string) =>
+      new RegExp(`(^|\\s)@${escapeRegExp(handle)}(?=$|[\\s.,;:!?])`, 'i').test(
+        text,
+      );
+
+    const mentions = this.getRoomMemberIds(roomId).filter(
+      (id) => mentionedAt(id) || mentionedAt(this.getUserName(id)),
+    );
+
+    let broadcastMention: Message['broadcastMention'];
+    if (this.canModerate(roomId, authorId)) {
+      if (mentionedAt('room')) broadcastMention = 'room';
+      else if (mentionedAt('here')) broadcastMention = 'here';
+    }
+
+    return {
+      mentions: mentions.length > 0 ? mentions : undefined,
+      broadcastMention,
+    };
+  }
+
+  /**
+   * Adiciona uma resposta à thread e atualiza os contadores da mensagem raiz.
+   * Respostas a respostas vão para a mesma thread (não há aninhamento).
+   */
+  addReply(
+    roomId: string,
+    parentId: string,
+    message: Omit<Message, 'id' | 'parentId'>,
+  ) {
+    const { message: target } = this.findLiveMessage(roomId, parentId);
+    const parent = target.parentId
+      ? this.findLiveMessage(roomId, target.parentId).message
+      : target;
+
+    const reply = this.addMessage(roomId, { ...message, parentId: parent.id })!;
+    const updatedParent: Message = {
+      ...parent,
+      replyCount: (parent.replyCount ?? 0) + 1,
+      lastReplyAt: reply.timestamp,
+    };
+    this.repository.updateMessage(roomId, updatedParent);
+
+    return { reply, parent: updatedParent };
+  }
+
+  getThreadParticipants(roomId: string, parentId: string) {
+    const room = this.repository.getRoom(roomId);
+    const parent = room?.messages.find((m) => m.id === parentId);
+    if (!room || !parent) return [];
+
+    const participants = new Set([parent.userId]);
+    for (const message of room.messages) {
+      if (message.parentId === parentId) participants.add(message.userId);
+    }
+    return [...participants];
+  }
+
+  editMessage(roomId: string, messageId: string, userId: string, text: string) {
+    const message = this.getEditableMessage(roomId, messageId, userId, 'edit');
+
+    const updated: Message = {
+      ...message,
+      message: text,
+      editedAt: new Date(),
+      edits: [
+        ...(message.edits ?? []),
+        {
+          message: message.message,
+          editedAt: message.editedAt ?? message.timestamp,
+        },
+      ],
+    };
+    this.repository.updateMessage(roomId, updated);
+    this.searchIndex.add(roomId, updated);
+    return updated;
+  }
+
+  /** Exclusão lógica: o texto e o histórico somem, o registro fica como tombstone. */
+  deleteMessage(roomId: string, messageId: string, userId: string) {
+    const message = this.getEditableMessage(
+      roomId,
+      messageId,
+      userId,
+      'delete',
+    );
+
+    const tombstone: Message = {
+      ...message,
+      message: '',
+      edits: undefined,
+      reactions: undefined,
+      deletedAt: new Date(),
+      deletedBy: userId,
+    };
+    this.repository.updateMessage(roomId, tombstone);
+    this.searchIndex.remove(roomId, messageId);
+
+    // Respostas excluídas deixam de contar na mensagem raiz
+    const parent = message.parentId
+      ? this.repository
+          .getRoom(roomId)
+          ?.messages.find((m) => m.id === message.parentId)
+      : undefined;
+    if (parent) {
+      this.repository.updateMessage(roomId, {
+        ...parent,
+        replyCount: Math.max(0, (parent.replyCount ?? 0) - 1),
+      });
+    }
+
+    return tombstone;
+  }
+
+  /** Cada usuário tem no máximo uma reação de cada emoji por mensagem. */
+  addReaction(
+    roomId: string,
+    messageId: string,
+    userId: string,
+    emoji: string,
+  ) {
+    const message = this.getReactableMessage(roomId, messageId, userId, emoji);
+    const reactions = message.reactions ?? [];
+    const existing = reactions.find((r) => r.emoji === emoji);
+    if (existing?.userIds.includes(userId)) return reactions;
+
+    const updated: Message = {
+      ...message,
+      reactions: existing
+        ? reactions.map((r) =>
+            r === existing ? { emoji, userIds: [...r.userIds, userId] } : r,
+          )
+        : [...reactions, { emoji, userIds: [userId] }],
+    };
+    this.repository.updateMessage(roomId, updated);
+    return updated.reactions!;
+  }
+
+  removeReaction(
+    roomId: string,
+    messageId: string,
+    userId: string,
+    emoji: string,
+  ) {
+    const message = this.getReactableMessage(roomId, messageId, userId, emoji);
+    const reactions = message.reactions ?? [];
+    const existing = reactions.find((r) => r.emoji === emoji);
+    if (!existing?.userIds.includes(userId)) return reactions;
+
+    const updated: Message = {
+      ...message,
+      reactions: reactions
+        .map((r) =>
+          r === existing
+            ? { emoji, userIds: r.userIds.filter((id) => id !== userId) }
+            : r,
+        )
+        .filter((r) => r.userIds.length > 0),
+    };
+    this.repository.updateMessage(roomId, updated);
+    return updated.reactions!;
+  }
+
+  private getReactableMessage(
+    roomId: string,
+    messageId: string,
+    userId: string,
+    emoji: string,
+  ) {
+    if (!emoji || emoji.length > MAX_REACTION_LENGTH) {
+      throw new BadRequestException('Invalid reaction');
+    }
+    if (!this.canAccessRoom(roomId, userId)) {
+      throw new ForbiddenException('Unauthorized');
+    }
+    return this.findLiveMessage(roomId, messageId).message;
+  }
+
+  /**
+   * O autor só altera a própria mensagem enquanto puder escrever na sala
+   * (sem ban, kick ou mute). Moderadores podem excluir, mas não editar, as
+   * mensagens dos outros.
+   */
+  private getEditableMessage(
+    roomId: string,
+    messageId: string,
+    userId: string,
+    action: 'edit' | 'delete',
+  ) {
+    const { message } = this.findLiveMessage(roomId, messageId);
+    if (action === 'delete' && this.canModerate(roomId, userId)) {
+      return message;
+    }
+    if (message.userId !== userId) {
+      throw new ForbiddenException(
+        action === 'delete'
+          ? 'Apenas o autor ou moderadores da sala podem excluir a mensagem'
+          : 'Apenas o autor pode editar a mensagem',
+      );
+    }
+
+    this.assertCanPost(roomId, userId);
+    return message;
+  }
+
+  private findLiveMessage(roomId: string, messageId: string) {
+    const room = this.repository.getRoom(roomId);
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+
+    const message = room.messages.find((m) => m.id === messageId);
+    if (!message) {
+      throw new NotFoundException('Message not found');
+    }
+    if (message.deletedAt) {
+      throw new GoneException('Message was deleted');
+    }
+
+    return { room, message };
+  }
+
+  getMessages(roomId: string, options: MessagePageOptions = {}): MessagePage {
+    const room = this.repository.getRoom(roomId);
+    if (!room) return { messages: [], hasMore: false };
+
+    const limit = Math.min(
+      Math.max(options.limit ?? DEFAULT_HISTORY_PAGE_SIZE, 1),
+      MAX_HISTORY_PAGE_SIZE,
+    );
+    const messages = room.messages.filter(
+      (m) => m.parentId === options.parentId,
+    );
+
+    let start = 0;
+    let end = messages.length;
+    if (options.before) {
+      end = this.findCursorIndex(messages, options.before, 'before');
+    }
+    if (options.after) {
+      start = this.findCursorIndex(messages, options.after, 'after');
+    }
+    if (start >= end) return { messages: [], hasMore: false };
+
+    // Sem "after" a página mais recente é a relevante; com "after" o cliente
+    // está avançando a partir de um ponto conhecido.
+    if (options.after && !options.before) {
+      const page = messages.slice(start, Math.min(start + limit, end));
+      return { messages: page, hasMore: start + limit < end };
+    }
+
+    const pageStart = Math.max(end - limit, start);
+    return {
+      messages: messages.slice(pageStart, end),
+      hasMore: pageStart > start,
+    };
+  }
+
+  /**
+   * Busca no índice invertido: a mensagem precisa conter todos os termos.
+   * Só retorna mensagens de salas que o usuário pode acessar.
+   */
+  searchMessages(
+    userId: string,
+    options: MessageSearchOptions,
+  ): MessageSearchHit[] {
+    const terms = tokenize(options.query);
+    if (terms.size === 0) {
+      throw new BadRequestException('Empty search query');
+    }
+
+    const limit = Math.min(
+      Math.max(options.limit ?? DEFAULT_SEARCH_LIMIT, 1),
+      MAX_SEARCH_LIMIT,
+    );
+    const access = new Map<string, boolean>();
+    const hits: MessageSearchHit[] = [];
+
+    for (const candidate of this.searchIndex.search(terms)) {
+      if (options.roomId && candidate.roomId !== options.roomId) continue;
+      if (options.authorId && candidate.userId !== options.authorId) continue;
+      if (options.from && candidate.timestamp < options.from) continue;
+      if (options.to && candidate.timestamp > options.to) continue;
+
+      if (!access.has(candidate.roomId)) {
+        access.set(
+          candidate.roomId,
+          this.canAccessRoom(candidate.roomId, userId),
+        );
+      }
+      if (!access.get(candidate.roomId)) continue;
+
+      const message = this.repository
+        .getRoom(candidate.roomId)
+        ?.messages.find((m) => m.id === candidate.messageId);
+      if (!message) continue;
+
+      hits.push({
+        roomId: candidate.roomId,
+        message,
+        ...buildSnippet(message.message, terms),
+      });
+      if (hits.length === limit) break;
+    }
+
+    return hits;
+  }
+
+  private findCursorIndex(
+    messages: Message[],
+    cursor: string,
+    direction: 'before' | 'after',
+  ) {
+    const byId = messages.findIndex((m) => m.id === cursor);
+    if (byId !== -1) return direction === 'before' ? byId : byId + 1;
+
+    const time = new Date(cursor).getTime();
+    if (Number.isNaN(time)) return direction === 'before' ? 0 : messages.length;
+
+    if (direction === 'before') {
+      const index = messages.findIndex((m) => m.timestamp.getTime() >= time);
+      return index === -1 ? messages.length : index;
+    }
+    const index = messages.findIndex((m) => m.timestamp.getTime() > time);
+    return index === -1 ? messages.length : index;
   }
 
   getRoom(roomId: string) {
-    return this.rooms.get(roomId);
+    return this.repository.getRoom(roomId);
   }
 
   getRooms() {
-    return [...this.rooms.keys()];
+    return this.repository.getRoomEntries().map(([roomId]) => roomId);
   }
 
   getRoomsDetailed() {
-    return [...this.rooms.entries()].map(([roomId, room]) => ({
+    return this.repository
+      .getRoomEntries()
+      .filter(([, room]) => !room.isDirect)
+      .map(([roomId, room]) => ({
+        roomId,
+        isPrivate: room.isPrivate,
+        creatorId: room.creatorId,
+      }));
+  }
+
+  getRoomDetails(roomId: string) {
+    const room = this.repository.getRoom(roomId);
+    if (!room) return null;
+
+    return {
       roomId,
       isPrivate: room.isPrivate,
       creatorId: room.creatorId,
-    }));
+      userCount: room.users.size,
+      messageCount: room.messages.length,
+    };
+  }
+
+  getRoomMembers(roomId: string) {
+    const room = this.repository.getRoom(roomId);
+    if (!room) return null;
+
+    return {
+      roomId,
+      creatorId: room.creatorId,
+      users: Array.from(room.users.values()).map((u) => ({
+        id: u.id,
+        name: u.name,
+        role: this.getRole(roomId, u.id),
+      })),
+      allowedUsers: room.isPrivate ? [...(room.allowedUsers ?? [])] : undefined,
+    };
+  }
+
+  getAccessibleRooms(userId: string) {
+    return this.getRoomsDetailed()
+      .filter((room) => this.canAccessRoom(room.roomId, userId))
+      .map((room) => ({
+        ...room,
+        unreadCount: this.getUnreadCount(room.roomId, userId),
+      }));
+  }
+
+  /**
+   * Avança o marcador de leitura do usuário até a mensagem informada (ou a
+   * última da sala). Marcadores nunca retrocedem; retorna null se nada mudou.
+   */
+  markRead(roomId: string, userId: string, messageId?: string) {
+    const room = this.repository.getRoom(roomId);
+    if (!room || room.messages.length === 0) return null;
+
+    const index = messageId
+      ? room.messages.findIndex((m) => m.id === messageId)
+      : room.messages.length - 1;
+    if (index === -1) return null;
+
+    room.readMarkers ??= new Map();
+    const current = room.readMarkers.get(userId);
+    if (current && this.indexOfMessage(roomId, current.messageId) >= index) {
+      return null;
+    }
+
+    const marker = { messageId: room.messages[index].id, readAt: new Date() };
+    room.readMarkers.set(userId, marker);
+    this.repository.saveRoom(roomId, room);
+    return marker;
+  }
+
+  getReadReceipts(roomId: string) {
+    const room = this.repository.getRoom(roomId);
+    return [...(room?.readMarkers?.entries() ?? [])].map(
+      ([userId, marker]) => ({
+        userId,
+        ...marker,
+      }),
+    );
+  }
+
+  /** Só mensagens da timeline principal: respostas e excluídas não contam. */
+  getUnreadCount(roomId: string, userId: string) {
+    const room = this.repository.getRoom(roomId);
+    if (!room) return 0;
+
+    const marker = room.readMarkers?.get(userId);
+    const start = marker
+      ? this.indexOfMessage(roomId, marker.messageId) + 1
+      : 0;
+    return room.messages
+      .slice(start)
+      .filter((m) => m.userId !== userId && !m.parentId && !m.deletedAt).length;
+  }
+
+  private indexOfMessage(roomId: string, messageId: string) {
+    const room = this.repository.getRoom(roomId);
+    return room?.messages.findIndex((m) => m.id === messageId) ?? -1;
   }
 
   getRoomsByUserId(userId: string) {
-    return [...this.rooms.entries()]
-      .filter(([_, room]) => room.users.has(userId))
+    return this.repository
+      .getRoomEntries()
+      .filter(([, room]) => room.users.has(userId))
       .map(([roomId]) => roomId);
   }
 
   addUserToPrivateRoom(roomId: string, userId: string) {
-    const room = this.rooms.get(roomId);
-    if (!room || !room.isPrivate) return false;
+    const room = this.repository.getRoom(roomId);
+    if (!room || !room.isPrivate || this.isBanned(roomId, userId)) return false;
+    // A DM é sempre só dos dois participantes
+    if (room.isDirect) return false;
 
     room.allowedUsers?.add(userId);
+    this.repository.saveRoom(roomId, room);
     return true;
   }
 
   canAccessRoom(roomId: string, userId: string): boolean {
-    const room = this.rooms.get(roomId);
+    const room = this.repository.getRoom(roomId);
     if (!room) return false;
+    if (this.isBanned(roomId, userId)) return false;
     if (!room.isPrivate) return true;
     return room.allowedUsers?.has(userId) ?? false;
   }
 
   verifyRoomPassword(roomId: string, password: string): boolean {
-    const room = this.rooms.get(roomId);
-    if (!room || !room.isPrivate) return false;
-    return room.password === password;
+    const room = this.repository.getRoom(roomId);
+    if (!room || !room.isPrivate || !room.passwordHash) return false;
+    return verifyRoomPasswordHash(password, room.passwordHash);
+  }
+
+  addAttachment(roomId: string, attachment: Attachment) {
+    const room = this.repository.getRoom(roomId);
+    if (!room) return;
+
+    room.attachments ??= new Map();
+    room.attachments.set(attachment.id, attachment);
+    this.repository.saveRoom(roomId, room);
+  }
+
+  getAttachment(roomId: string, attachmentId: string) {
+    return this.repository.getRoom(roomId)?.attachments?.get(attachmentId);
+  }
+
+  isInviteUsed(roomId: string, inviteId: string): boolean {
+    return this.repository.getRoom(roomId)?.usedInvites?.has(inviteId) ?? false;
+  }
+
+  markInviteUsed(roomId: string, inviteId: string) {
+    const room = this.repository.getRoom(roomId);
+    if (!room) return;
+
+    room.usedInvites ??= new Set();
+    room.usedInvites.add(inviteId);
+    this.repository.saveRoom(roomId, room);
   }
 
   isRoomCreator(roomId: string, userId: string): boolean {
-    const room = this.rooms.get(roomId);
-    if (!room) return false;
+    const room = this.repository.getRoom(roomId);
+    if (!room || room.isDirect) return false;
     return room.creatorId === userId;
   }
 
+  getRole(roomId: string, userId: string): RoomRole {
+    const room = this.repository.getRoom(roomId);
+    if (room?.isDirect) return 'member';
+    if (room?.creatorId === userId) return 'owner';
+    if (room?.moderators?.has(userId)) return 'moderator';
+    return 'member';
+  }
+
+  /** Quem pode usar recursos de moderação na sala (ex.: @room/@here, kick). */
+  canModerate(roomId: string, userId: string): boolean {
+    return this.getRole(roomId, userId) !== 'member';
+  }
+
   getRoomCreator(roomId: string): string | null {
-    const room = this.rooms.get(roomId);
+    const room = this.repository.getRoom(roomId);
     return room?.creatorId ?? null;
   }
+
+  /** Só o owner promove ou rebaixa moderadores. */
+  setModerator(
+    roomId: string,
+    actorId: string,
+    targetId: string,
+    isModerator: boolean,
+  ) {
+    const room = this.getModeratedRoom(roomId);
+    if (room.creatorId !== actorId) {
+      throw new ForbiddenException('Apenas o criador pode alterar cargos');
+    }
+    if (targetId === room.creatorId) {
+      throw new BadRequestException('O criador não pode mudar de cargo');
+    }
+    if (isModerator && !this.canAccessRoom(roomId, targetId)) {
+      throw new BadRequestException('User has no access to this room');
+    }
+
+    room.moderators ??= new Set();
+    if (isModerator) room.moderators.add(targetId);
+    else room.moderators.delete(targetId);
+    this.repository.saveRoom(roomId, room);
+
+    return this.getRole(roomId, targetId);
+  }
+
+  isBanned(roomId: string, userId: string): boolean {
+    const ban = this.repository.getRoom(roomId)?.bans?.get(userId);
+    return !!ban && (!ban.until || ban.until.getTime() > Date.now());
+  }
+
+  /**
+   * Tira o usuário da sala e impede a volta: sem `durationSeconds` o
+   * banimento é permanente. Também revoga o acesso à sala privada e o cargo.
+   */
+  banUser(
+    roomId: string,
+    actorId: string,
+    targetId: string,
+    durationSeconds?: number,
+  ) {
+    const room = this.getModeratedRoom(roomId);
+    this.assertOutranks(roomId, actorId, targetId);
+
+    const until = durationSeconds
+      ? new Date(Date.now() + durationSeconds * 1000)
+      : undefined;
+
+    room.bans ??= new Map();
+    room.bans.set(targetId, { bannedBy: actorId, until });
+    room.users.delete(targetId);
+    room.allowedUsers?.delete(targetId);
+    room.moderators?.delete(targetId);
+    this.repository.saveRoom(roomId, room);
+
+    return until ?? null;
+  }
+
+  kickUser(roomId: string, actorId: string, targetId: string) {
+    return this.banUser(roomId, actorId, targetId, KICK_BAN_SECONDS)!;
+  }
+
+  unbanUser(roomId: string, actorId: string, targetId: string) {
+    const room = this.getModeratedRoom(roomId);
+    if (!this.canModerate(roomId, actorId)) {
+      throw new ForbiddenException('Unauthorized');
+    }
+
+    room.bans?.delete(targetId);
+    this.repository.saveRoom(roomId, room);
+  }
+
+  muteUser(
+    roomId: string,
+    actorId: string,
+    targetId: string,
+    durationSeconds: number,
+  ) {
+    if (
+      !Number.isInteger(durationSeconds) ||
+      durationSeconds <= 0 ||
+      durationSeconds > MAX_MUTE_SECONDS
+    ) {
+      throw new BadRequestException('Invalid mute duration');
+    }
+
+    const room = this.getModeratedRoom(roomId);
+    this.assertOutranks(roomId, actorId, targetId);
+
+    const until = new Date(Date.now() + durationSeconds * 1000);
+    room.mutes ??= new Map();
+    room.mutes.set(targetId, until);
+    this.repository.saveRoom(roomId, room);
+
+    return until;
+  }
+
+  unmuteUser(roomId: string, actorId: string, targetId: string) {
+    const room = this.getModeratedRoom(roomId);
+    if (!this.canModerate(roomId, actorId)) {
+      throw new ForbiddenException('Unauthorized');
+    }
+
+    room.mutes?.delete(targetId);
+    this.repository.saveRoom(roomId, room);
+  }
+
+  getMutedUntil(roomId: string, userId: string): Date | null {
+    const until = this.repository.getRoom(roomId)?.mutes?.get(userId);
+    return until && until.getTime() > Date.now() ? until : null;
+  }
+
+  /**
+   * Mensagens e respostas passam por aqui: quem não tem acesso à sala
+   * (banido, kick recente, fora da sala privada) ou está silenciado é barrado.
+   */
+  assertCanPost(roomId: string, userId: string) {
+    if (!this.canAccessRoom(roomId, userId)) {
+      throw new ForbiddenException('Unauthorized');
+    }
+
+    const mutedUntil = this.getMutedUntil(roomId, userId);
+    if (mutedUntil) {
+      throw new ForbiddenException(`Muted until ${mutedUntil.toISOString()}`);
+    }
+  }
+
+  private getModeratedRoom(roomId: string): Room {
+    const room = this.repository.getRoom(roomId);
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+    if (room.isDirect) {
+      throw new BadRequestException('Direct messages have no moderation');
+    }
+
+    return room;
+  }
+
+  /** Moderadores agem só sobre membros; o owner, sobre todos. */
+  outranks(roomId: string, actorId: string, targetId: string): boolean {
+    const actorRank = ROLE_RANK[this.getRole(roomId, actorId)];
+    return (
+      actorRank > 0 && actorRank > ROLE_RANK[this.getRole(roomId, targetId)]
+    );
+  }
+
+  private assertOutranks(roomId: string, actorId: string, targetId: string) {
+    if (!this.outranks(roomId, actorId, targetId)) {
+      throw new ForbiddenException('Unauthorized');
+    }
+  }
 }
@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AttachmentRefDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  fileName: string;
+
+  @ApiProperty()
+  mimeType: string;
+
+  @ApiProperty({ description: 'Tamanho em bytes' })
+  size: number;
+}
+
+export class AttachmentDto extends AttachmentRefDto {
+  @ApiProperty()
+  uploaderId: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
@@ -0,0 +1,15 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsInt, IsOptional, Min } from 'class-validator';
+
+export class CreateInviteDto {
+  @ApiPropertyOptional({ description: 'Validade do convite em segundos' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  expiresInSeconds?: number;
+
+  @ApiPropertyOptional({ description: 'Convite válido para um único uso' })
+  @IsOptional()
+  @IsBoolean()
+  singleUse?: boolean;
+}
@@ -0,0 +1,49 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateRoomDto {
+  @ApiProperty({ description: 'Nome da sala, usado também como id' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  roomName: string;
+
+  @ApiPropertyOptional({ default: false })
+  @IsOptional()
+  @IsBoolean()
+  isPrivate?: boolean;
+
+  @ApiPropertyOptional({ description: 'Senha de acesso à sala privada' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  password?: string;
+}
+
+export class RoomSummaryDto {
+  @ApiProperty()
+  roomId: string;
+
+  @ApiProperty()
+  isPrivate: boolean;
+
+  @ApiProperty()
+  creatorId: string;
+
+  @ApiPropertyOptional({ description: 'Mensagens não lidas pelo usuário' })
+  unreadCount?: number;
+}
+
+export class RoomDetailsDto extends RoomSummaryDto {
+  @ApiProperty({ description: 'Usuários conectados à sala agora' })
+  userCount: number;
+
+  @ApiProperty()
+  messageCount: number;
+}
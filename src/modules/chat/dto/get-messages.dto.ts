@@ -0,0 +1,28 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { MAX_HISTORY_PAGE_SIZE } from '../chat.service';
+
+export class GetMessagesQueryDto {
+  @ApiPropertyOptional({
+    description: 'Id ou timestamp ISO: retorna mensagens anteriores a ele',
+  })
+  @IsOptional()
+  @IsString()
+  before?: string;
+
+  @ApiPropertyOptional({
+    description: 'Id ou timestamp ISO: retorna mensagens posteriores a ele',
+  })
+  @IsOptional()
+  @IsString()
+  after?: string;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: MAX_HISTORY_PAGE_SIZE })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_HISTORY_PAGE_SIZE)
+  limit?: number;
+}
@@ -0,0 +1,38 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+import type { RoomRole } from '../interfaces/chat.interfaces';
+
+export class JoinRoomDto {
+  @ApiPropertyOptional({ description: 'Senha, exigida em salas privadas' })
+  @IsOptional()
+  @IsString()
+  password?: string;
+}
+
+export class RoomMemberDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ enum: ['owner', 'moderator', 'member'] })
+  role: RoomRole;
+}
+
+export class RoomMembersDto {
+  @ApiProperty()
+  roomId: string;
+
+  @ApiProperty()
+  creatorId: string;
+
+  @ApiProperty({ type: [RoomMemberDto], description: 'Usuários conectados' })
+  users: RoomMemberDto[];
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Usuários com acesso à sala privada',
+  })
+  allowedUsers?: string[];
+}
@@ -0,0 +1,109 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { MAX_ATTACHMENTS_PER_MESSAGE } from '../attachment.service';
+import { AttachmentRefDto } from './attachment.dto';
+
+export class SendMessageDto {
+  @ApiProperty({ description: 'Pode ser vazio quando há anexos' })
+  @IsString()
+  @MaxLength(4000)
+  message: string;
+
+  @ApiPropertyOptional({ description: 'Responde em thread a esta mensagem' })
+  @IsOptional()
+  @IsString()
+  parentId?: string;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Ids retornados pelo upload de anexos da sala',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_ATTACHMENTS_PER_MESSAGE)
+  @IsString({ each: true })
+  attachmentIds?: string[];
+}
+
+export class MessageEditDto {
+  @ApiProperty()
+  message: string;
+
+  @ApiProperty()
+  editedAt: Date;
+}
+
+export class MessageReactionDto {
+  @ApiProperty()
+  emoji: string;
+
+  @ApiProperty({ type: [String] })
+  userIds: string[];
+}
+
+export class MessageDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty()
+  userName: string;
+
+  @ApiProperty()
+  message: string;
+
+  @ApiProperty()
+  timestamp: Date;
+
+  @ApiPropertyOptional()
+  editedAt?: Date;
+
+  @ApiPropertyOptional({ type: [MessageEditDto] })
+  edits?: MessageEditDto[];
+
+  @ApiPropertyOptional({ description: 'Presente em mensagens excluídas' })
+  deletedAt?: Date;
+
+  @ApiPropertyOptional()
+  deletedBy?: string;
+
+  @ApiPropertyOptional({ type: [MessageReactionDto] })
+  reactions?: MessageReactionDto[];
+
+  @ApiPropertyOptional()
+  parentId?: string;
+
+  @ApiPropertyOptional()
+  replyCount?: number;
+
+  @ApiPropertyOptional()
+  lastReplyAt?: Date;
+
+  @ApiPropertyOptional({ type: [String] })
+  mentions?: string[];
+
+  @ApiPropertyOptional({ enum: ['room', 'here'] })
+  broadcastMention?: 'room' | 'here';
+
+  @ApiPropertyOptional({ type: [AttachmentRefDto] })
+  attachments?: AttachmentRefDto[];
+}
+
+export class MessagePageDto {
+  @ApiProperty()
+  roomId: string;
+
+  @ApiProperty({ type: [MessageDto] })
+  messages: MessageDto[];
+
+  @ApiProperty({ description: 'Há mais mensagens além desta página' })
+  hasMore: boolean;
+}
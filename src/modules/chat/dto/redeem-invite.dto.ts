@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class RedeemInviteDto {
+  @ApiProperty({ description: 'Código recebido no convite' })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
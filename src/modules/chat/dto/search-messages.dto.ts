@@ -0,0 +1,85 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { MAX_SEARCH_LIMIT } from '../chat.service';
+import { MessageDto } from './message.dto';
+
+export class SearchMessagesQueryDto {
+  @ApiProperty({ description: 'Termos buscados; todos precisam aparecer' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  q: string;
+
+  @ApiPropertyOptional({ description: 'Restringe a busca a uma sala' })
+  @IsOptional()
+  @IsString()
+  roomId?: string;
+
+  @ApiPropertyOptional({ description: 'Restringe a mensagens deste autor' })
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @ApiPropertyOptional({ description: 'Timestamp ISO inicial' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @ApiPropertyOptional({ description: 'Timestamp ISO final' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: MAX_SEARCH_LIMIT })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SEARCH_LIMIT)
+  limit?: number;
+}
+
+export class SearchHighlightDto {
+  @ApiProperty()
+  start: number;
+
+  @ApiProperty()
+  end: number;
+}
+
+export class SearchHitDto {
+  @ApiProperty()
+  roomId: string;
+
+  @ApiProperty({ type: MessageDto })
+  message: MessageDto;
+
+  @ApiProperty()
+  snippet: string;
+
+  @ApiProperty({
+    type: [SearchHighlightDto],
+    description: 'Posições dos termos dentro de snippet',
+  })
+  highlights: SearchHighlightDto[];
+}
+
+export class SearchResultsDto {
+  @ApiProperty()
+  query: string;
+
+  @ApiProperty({ type: [SearchHitDto] })
+  results: SearchHitDto[];
+}
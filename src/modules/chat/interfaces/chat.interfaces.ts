@@ -0,0 +1,116 @@
+export interface MessageEdit {
+  message: string;
+  editedAt: Date;
+}
+
+export interface MessageReaction {
+  emoji: string;
+  userIds: string[];
+}
+
+export interface Attachment {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  uploaderId: string;
+  createdAt: Date;
+}
+
+/** Referência a um anexo já enviado, como aparece na mensagem. */
+export type AttachmentRef = Pick<
+  Attachment,
+  'id' | 'fileName' | 'mimeType' | 'size'
+>;
+
+export interface Message {
+  id: string;
+  userId: string;
+  userName: string;
+  message: string;
+  timestamp: Date;
+  editedAt?: Date;
+  /** Versões anteriores do texto, da mais antiga para a mais recente. */
+  edits?: MessageEdit[];
+  deletedAt?: Date;
+  deletedBy?: string;
+  reactions?: MessageReaction[];
+  /** Mensagem raiz da thread, quando esta é uma resposta. */
+  parentId?: string;
+  replyCount?: number;
+  lastReplyAt?: Date;
+  /** Usuários citados com @nome ou @userId. */
+  mentions?: string[];
+  /** @room (todos os membros) ou @here (quem está na sala agora). */
+  broadcastMention?: 'room' | 'here';
+  attachments?: AttachmentRef[];
+}
+
+export interface RoomUser {
+  id: string;
+  name: string;
+}
+
+export interface ReadMarker {
+  messageId: string;
+  readAt: Date;
+}
+
+/** owner é sempre o criador; moderadores são promovidos pelo owner. */
+export type RoomRole = 'owner' | 'moderator' | 'member';
+
+export interface RoomBan {
+  bannedBy: string;
+  /** Sem data o banimento é permanente (kick = banimento temporário). */
+  until?: Date;
+}
+
+export interface Room {
+  users: Map<string, RoomUser>;
+  messages: Message[];
+  isPrivate: boolean;
+  passwordHash?: string;
+  allowedUsers?: Set<string>;
+  creatorId: string;
+  usedInvites?: Set<string>;
+  readMarkers?: Map<string, ReadMarker>;
+  /** Conversa direta entre dois usuários, fora das listagens de salas. */
+  isDirect?: boolean;
+  attachments?: Map<string, Attachment>;
+  moderators?: Set<string>;
+  bans?: Map<string, RoomBan>;
+  /** Usuários silenciados e até quando. */
+  mutes?: Map<string, Date>;
+}
+
+export interface MessagePage {
+  messages: Message[];
+  hasMore: boolean;
+}
+
+export interface MessagePageOptions {
+  before?: string;
+  after?: string;
+  limit?: number;
+  /** Pagina as respostas dessa thread em vez das mensagens da sala. */
+  parentId?: string;
+}
+
+export interface MessageSearchOptions {
+  query: string;
+  roomId?: string;
+  /** Só mensagens deste autor. */
+  authorId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface MessageSearchHit {
+  roomId: string;
+  message: Message;
+  /** Trecho da mensagem em volta dos termos encontrados. */
+  snippet: string;
+  /** Posições [start, end) dos termos dentro de `snippet`. */
+  highlights: { start: number; end: number }[];
+}
@@ -0,0 +1,111 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  GoneException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ChatService } from './chat.service';
+import { InviteService } from './invite.service';
+import { InMemoryChatRepository } from './repositories/in-memory-chat.repository';
+
+describe('InviteService', () => {
+  let chatService: ChatService;
+  let service: InviteService;
+
+  const createService = (secret: string) =>
+    new InviteService(
+      chatService,
+      new ConfigService({
+        chat: {
+          invites: { secret, defaultTtlSeconds: 3600, maxTtlSeconds: 86400 },
+        },
+      }),
+    );
+
+  beforeEach(() => {
+    chatService = new ChatService(new InMemoryChatRepository());
+    chatService.createRoom('secreta', 'owner', true, 's3nha');
+    chatService.addUserToPrivateRoom('secreta', 'owner');
+    service = createService('invite-secret');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('grants access to the private room', () => {
+    const { code } = service.createInvite('secreta', 'owner');
+
+    expect(service.redeemInvite(code, 'alice')).toEqual({
+      roomId: 'secreta',
+    });
+    expect(chatService.canAccessRoom('secreta', 'alice')).toBe(true);
+  });
+
+  it('only lets moderators create invites', () => {
+    expect(() => service.createInvite('secreta', 'alice')).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('refuses invites to direct messages', () => {
+    const roomId = chatService.openDirectMessage('owner', 'bob');
+
+    expect(() => service.createInvite(roomId, 'owner')).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('rejects tampered payloads and foreign signatures', () => {
+    const { code } = service.createInvite('secreta', 'owner');
+    const [encoded, signature] = code.split('.');
+
+    const payload = JSON.parse(
+      Buffer.from(encoded, 'base64url').toString('utf8'),
+    ) as Record<string, unknown>;
+    const forged = Buffer.from(
+      JSON.stringify({ ...payload, roomId: 'outra' }),
+    ).toString('base64url');
+
+    expect(() =>
+      service.redeemInvite(`${forged}.${signature}`, 'alice'),
+    ).toThrow(BadRequestException);
+    expect(() => service.redeemInvite(encoded, 'alice')).toThrow(
+      'Invalid invite',
+    );
+    expect(() =>
+      createService('other-secret').redeemInvite(code, 'alice'),
+    ).toThrow('Invalid invite');
+  });
+
+  it('expires invites after their TTL, capped by the maximum', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const { code, expiresAt } = service.createInvite('secreta', 'owner', {
+      expiresInSeconds: 10 * 86400,
+    });
+    expect(expiresAt).toEqual(new Date('2026-01-02T00:00:00Z'));
+
+    jest.advanceTimersByTime(86400 * 1000 + 1);
+    expect(() => service.redeemInvite(code, 'alice')).toThrow(GoneException);
+  });
+
+  it('accepts a single-use invite only once', () => {
+    const { code } = service.createInvite('secreta', 'owner', {
+      singleUse: true,
+    });
+
+    service.redeemInvite(code, 'alice');
+    expect(() => service.redeemInvite(code, 'bob')).toThrow(
+      'Invite already used',
+    );
+  });
+
+  it('keeps banned users out', () => {
+    chatService.banUser('secreta', 'owner', 'alice');
+    const { code } = service.createInvite('secreta', 'owner');
+
+    expect(() => service.redeemInvite(code, 'alice')).toThrow(
+      ForbiddenException,
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  GoneException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { ChatService } from './chat.service';
+
+interface InvitePayload {
+  id: string;
+  roomId: string;
+  exp: number;
+  singleUse: boolean;
+}
+
+export interface CreateInviteOptions {
+  expiresInSeconds?: number;
+  singleUse?: boolean;
+}
+
+/**
+ * Convites para salas privadas. O código é `<payload>.<assinatura>`, ambos em
+ * base64url; nada precisa ser guardado até um convite de uso único ser usado.
+ */
+@Injectable()
+export class InviteService {
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  createInvite(
+    roomId: string,
+    userId: string,
+    options: CreateInviteOptions = {},
+  ) {
+    const room = this.chatService.getRoom(roomId);
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+    if (!room.isPrivate || room.isDirect) {
+      throw new BadRequestException('Invites are only for private rooms');
+    }
+    if (!this.chatService.canModerate(roomId, userId)) {
+      throw new ForbiddenException('Apenas moderadores podem gerar convites');
+    }
+
+    const ttl = Math.min(
+      options.expiresInSeconds ??
+        this.configService.getOrThrow<number>('chat.invites.defaultTtlSeconds'),
+      this.configService.getOrThrow<number>('chat.invites.maxTtlSeconds'),
+    );
+    const payload: InvitePayload = {
+      id: randomUUID(),
+      roomId,
+      exp: Date.now() + ttl * 1000,
+      singleUse: options.singleUse ?? false,
+    };
+
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return {
+      code: `${encoded}.${this.sign(encoded)}`,
+      roomId,
+      expiresAt: new Date(payload.exp),
+      singleUse: payload.singleUse,
+    };
+  }
+
+  /** Dá acesso à sala privada do convite, sem exigir a senha. */
+  redeemInvite(code: string, userId: string) {
+    const payload = this.decode(code);
+
+    if (payload.exp < Date.now()) {
+      throw new GoneException('Invite expired');
+    }
+    if (!this.chatService.getRoom(payload.roomId)) {
+      throw new NotFoundException('Room not found');
+    }
+    if (
+      payload.singleUse &&
+      this.chatService.isInviteUsed(payload.roomId, payload.id)
+    ) {
+      throw new GoneException('Invite already used');
+    }
+    if (this.chatService.isBanned(payload.roomId, userId)) {
+      throw new ForbiddenException('Banned from this room');
+    }
+
+    this.chatService.addUserToPrivateRoom(payload.roomId, userId);
+    if (payload.singleUse) {
+      this.chatService.markInviteUsed(payload.roomId, payload.id);
+    }
+
+    return { roomId: payload.roomId };
+  }
+
+  private decode(code: string): InvitePayload {
+    const [encoded, signature] = code.split('.');
+    if (!encoded || !signature) {
+      throw new BadRequestException('Invalid invite');
+    }
+
+    const expected = Buffer.from(this.sign(encoded), 'base64url');
+    const actual = Buffer.from(signature, 'base64url');
+    if (
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      throw new BadRequestException('Invalid invite');
+    }
+
+    return JSON.parse(
+      Buffer.from(encoded, 'base64url').toString('utf8'),
+    ) as InvitePayload;
+  }
+
+  private sign(encoded: string) {
+    return createHmac(
+      'sha256',
+      this.configService.getOrThrow<string>('chat.invites.secret'),
+    )
+      .update(encoded)
+      .digest('base64url');
+  }
+}
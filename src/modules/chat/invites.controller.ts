@@ -0,0 +1,18 @@
+import { Body, Controller, Post, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { CurrentUserId, HttpAuthGuard } from '../auth/http-auth.guard';
+import { RedeemInviteDto } from './dto/redeem-invite.dto';
+import { InviteService } from './invite.service';
+
+@ApiTags('invites')
+@ApiBearerAuth()
+@UseGuards(HttpAuthGuard)
+@Controller('invites')
+export class InvitesController {
+  constructor(private readonly inviteService: InviteService) {}
+
+  @Post('redeem')
+  redeem(@Body() body: RedeemInviteDto, @CurrentUserId() userId: string) {
+    return this.inviteService.redeemInvite(body.code, userId);
+  }
+}
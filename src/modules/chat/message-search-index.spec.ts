@@ -0,0 +1,84 @@
+import type { Message } from './interfaces/chat.interfaces';
+import {
+  buildSnippet,
+  MessageSearchIndex,
+  tokenize,
+} from './message-search-index';
+
+const message = (id: string, text: string, minute = 0): Message => ({
+  id,
+  userId: 'alice',
+  userName: 'alice',
+  message: text,
+  timestamp: new Date(Date.UTC(2026, 0, 1, 0, minute)),
+});
+
+describe('tokenize', () => {
+  it('lowercases, strips accents and ignores punctuation', () => {
+    expect([...tokenize('Reunião às 10h, OK?')]).toEqual([
+      'reuniao',
+      'as',
+      '10h',
+      'ok',
+    ]);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('highlights every matching term in the snippet', () => {
+    const { snippet, highlights } = buildSnippet(
+      'A Reunião de hoje: reuniao adiada',
+      new Set(['reuniao']),
+    );
+
+    expect(snippet).toBe('A Reunião de hoje: reuniao adiada');
+    expect(highlights.map((h) => snippet.slice(h.start, h.end))).toEqual([
+      'Reunião',
+      'reuniao',
+    ]);
+  });
+
+  it('cuts long texts around the first match', () => {
+    const text = `${'x'.repeat(100)} alvo ${'y'.repeat(300)}`;
+    const { snippet, highlights } = buildSnippet(text, new Set(['alvo']));
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet.slice(highlights[0].start, highlights[0].end)).toBe('alvo');
+  });
+});
+
+describe('MessageSearchIndex', () => {
+  let index: MessageSearchIndex;
+
+  beforeEach(() => {
+    index = new MessageSearchIndex();
+    index.add('geral', message('1', 'deploy amanhã cedo', 1));
+    index.add('geral', message('2', 'deploy adiado', 2));
+    index.add('outra', message('3', 'Deploy amanhã', 3));
+  });
+
+  const ids = (terms: string) =>
+    index.search(tokenize(terms)).map((c) => c.messageId);
+
+  it('requires every term and sorts newest first', () => {
+    expect(ids('deploy')).toEqual(['3', '2', '1']);
+    expect(ids('deploy amanha')).toEqual(['3', '1']);
+    expect(ids('deploy inexistente')).toEqual([]);
+  });
+
+  it('reindexes edited messages', () => {
+    index.add('geral', message('2', 'release adiado', 2));
+
+    expect(ids('deploy')).toEqual(['3', '1']);
+    expect(ids('release')).toEqual(['2']);
+  });
+
+  it('drops deleted messages and whole rooms', () => {
+    index.add('geral', { ...message('1', ''), deletedAt: new Date() });
+    expect(ids('deploy')).toEqual(['3', '2']);
+
+    index.removeRoom('outra');
+    expect(ids('deploy')).toEqual(['2']);
+  });
+});
@@ -0,0 +1,134 @@
+import type { Message } from './interfaces/chat.interfaces';
+
+const WORD = /[\p{L}\p{N}]+/gu;
+const SNIPPET_CONTEXT = 40;
+const SNIPPET_LENGTH = 160;
+
+interface IndexedMessage {
+  roomId: string;
+  messageId: string;
+  userId: string;
+  timestamp: Date;
+  terms: Set<string>;
+}
+
+export interface SearchCandidate {
+  roomId: string;
+  messageId: string;
+  userId: string;
+  timestamp: Date;
+}
+
+/** Minúsculas e sem acentos, para "Reunião" casar com "reuniao". */
+export function normalizeTerm(word: string) {
+  return word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+export function tokenize(text: string) {
+  return new Set(
+    Array.from(text.matchAll(WORD), ([word]) => normalizeTerm(word)),
+  );
+}
+
+/**
+ * Recorta o texto em volta do primeiro termo encontrado e devolve as posições
+ * (no recorte) de todos os termos, para o cliente destacar.
+ */
+export function buildSnippet(text: string, terms: Set<string>) {
+  const matches = Array.from(text.matchAll(WORD))
+    .filter(([word]) => terms.has(normalizeTerm(word)))
+    .map((match) => ({
+      start: match.index,
+      end: match.index + match[0].length,
+    }));
+
+  const start = Math.max(0, (matches[0]?.start ?? 0) - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    snippet: prefix + text.slice(start, end) + (end < text.length ? '…' : ''),
+    highlights: matches
+      .filter((m) => m.start >= start && m.end <= end)
+      .map((m) => ({ start: m.start + offset, end: m.end + offset })),
+  };
+}
+
+/**
+ * Índice invertido termo -> mensagens. Guarda só o necessário para filtrar
+ * e ordenar; o texto continua no repositório.
+ */
+export class MessageSearchIndex {
+  private postings = new Map<string, Set<string>>();
+  private documents = new Map<string, IndexedMessage>();
+
+  add(roomId: string, message: Message) {
+    const key = this.key(roomId, message.id);
+    this.remove(roomId, message.id);
+    if (message.deletedAt) return;
+
+    const terms = tokenize(message.message);
+    if (terms.size === 0) return;
+
+    this.documents.set(key, {
+      roomId,
+      messageId: message.id,
+      userId: message.userId,
+      timestamp: message.timestamp,
+      terms,
+    });
+    for (const term of terms) {
+      let keys = this.postings.get(term);
+      if (!keys) {
+        keys = new Set();
+        this.postings.set(term, keys);
+      }
+      keys.add(key);
+    }
+  }
+
+  remove(roomId: string, messageId: string) {
+    const key = this.key(roomId, messageId);
+    const document = this.documents.get(key);
+    if (!document) return;
+
+    for (const term of document.terms) {
+      const keys = this.postings.get(term);
+      keys?.delete(key);
+      if (keys?.size === 0) this.postings.delete(term);
+    }
+    this.documents.delete(key);
+  }
+
+  removeRoom(roomId: string) {
+    for (const document of [...this.documents.values()]) {
+      if (document.roomId === roomId) this.remove(roomId, document.messageId);
+    }
+  }
+
+  /** Mensagens que contêm todos os termos, da mais recente para a mais antiga. */
+  search(terms: Set<string>): SearchCandidate[] {
+    const postingLists = [...terms].map((t) => this.postings.get(t));
+    if (postingLists.length === 0 || postingLists.some((p) => !p)) return [];
+
+    const [smallest, ...rest] = (postingLists as Set<string>[]).sort(
+      (a, b) => a.size - b.size,
+    );
+
+    return [...smallest]
+      .filter((key) => rest.every((keys) => keys.has(key)))
+      .map((key) => this.documents.get(key)!)
+      .map(({ roomId, messageId, userId, timestamp }) => ({
+        roomId,
+        messageId,
+        userId,
+        timestamp,
+      }))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  private key(roomId: string, messageId: string) {
+    return `${roomId}\u0000${messageId}`;
+  }
+}
@@ -0,0 +1,121 @@
+import { ConfigService } from '@nestjs/config';
+import { PresenceService } from './presence.service';
+
+describe('PresenceService', () => {
+  let service: PresenceService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    service = new PresenceService(
+      new ConfigService({
+        chat: { presence: { idleTimeoutMs: 1000, typingTimeoutMs: 500 } },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  describe('presence', () => {
+    it('goes away once when heartbeats stop and comes back on the next one', () => {
+      const onIdle = jest.fn();
+
+      expect(service.heartbeat('alice', onIdle)).toBe(false);
+      jest.advanceTimersByTime(999);
+      expect(service.getStatus('alice')).toBe('online');
+
+      jest.advanceTimersByTime(1);
+      expect(service.getStatus('alice')).toBe('away');
+      expect(onIdle).toHaveBeenCalledTimes(1);
+
+      expect(service.heartbeat('alice', onIdle)).toBe(true);
+      expect(service.getStatus('alice')).toBe('online');
+    });
+
+    it('restarts the idle timer on every heartbeat', () => {
+      const onIdle = jest.fn();
+
+      service.heartbeat('alice', onIdle);
+      jest.advanceTimersByTime(800);
+      service.heartbeat('alice', onIdle);
+      jest.advanceTimersByTime(800);
+
+      expect(onIdle).not.toHaveBeenCalled();
+      expect(service.getStatus('alice')).toBe('online');
+    });
+
+    it('keeps a manual status through idle and heartbeats', () => {
+      const onIdle = jest.fn();
+      service.setStatus('alice', 'dnd');
+
+      expect(service.heartbeat('alice', onIdle)).toBe(false);
+      jest.advanceTimersByTime(1000);
+
+      expect(service.getStatus('alice')).toBe('dnd');
+      expect(onIdle).not.toHaveBeenCalled();
+    });
+
+    it('forgets automatic status on disconnect but keeps a manual one', () => {
+      const onIdle = jest.fn();
+      service.heartbeat('alice', onIdle);
+      jest.advanceTimersByTime(1000);
+      service.setStatus('bob', 'away');
+
+      service.disconnect('alice');
+      service.disconnect('bob');
+      jest.advanceTimersByTime(1000);
+
+      expect(service.getStatus('alice')).toBe('online');
+      expect(service.getStatus('bob')).toBe('away');
+      expect(onIdle).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('typing', () => {
+    it('expires the typing indicator and notifies once', () => {
+      const onExpire = jest.fn();
+
+      expect(service.startTyping('geral', 'alice', onExpire)).toBe(true);
+      expect(service.getTypingUsers('geral')).toEqual(['alice']);
+
+      jest.advanceTimersByTime(500);
+
+      expect(onExpire).toHaveBeenCalledTimes(1);
+      expect(service.getTypingUsers('geral')).toEqual([]);
+    });
+
+    it('renews the timer when typing again', () => {
+      const onExpire = jest.fn();
+
+      service.startTyping('geral', 'alice', onExpire);
+      jest.advanceTimersByTime(400);
+      expect(service.startTyping('geral', 'alice', onExpire)).toBe(false);
+      jest.advanceTimersByTime(400);
+
+      expect(onExpire).not.toHaveBeenCalled();
+      expect(service.getTypingUsers('geral')).toEqual(['alice']);
+    });
+
+    it('stops typing without firing the expiry', () => {
+      const onExpire = jest.fn();
+      service.startTyping('geral', 'alice', onExpire);
+
+      expect(service.stopTyping('geral', 'alice')).toBe(true);
+      expect(service.stopTyping('geral', 'alice')).toBe(false);
+      jest.advanceTimersByTime(500);
+
+      expect(onExpire).not.toHaveBeenCalled();
+      expect(service.getTypingUsers('geral')).toEqual([]);
+    });
+
+    it('tracks typing per room', () => {
+      service.startTyping('geral', 'alice', jest.fn());
+      service.startTyping('random', 'bob', jest.fn());
+
+      expect(service.getTypingUsers('geral')).toEqual(['alice']);
+      expect(service.getTypingUsers('random')).toEqual(['bob']);
+    });
+  });
+});
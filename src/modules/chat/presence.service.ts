@@ -0,0 +1,138 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+export type PresenceStatus = 'online' | 'away' | 'dnd';
+
+export const PRESENCE_STATUSES: PresenceStatus[] = ['online', 'away', 'dnd'];
+
+interface UserPresence {
+  status: PresenceStatus;
+  /** true quando o status foi escolhido pelo usuário (não pelo idle). */
+  manual: boolean;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Estado efêmero por usuário: presença (online/away/dnd) e indicadores de
+ * digitação por sala, ambos expirados por timers no servidor.
+ */
+@Injectable()
+export class PresenceService implements OnModuleDestroy {
+  private presence = new Map<string, UserPresence>();
+  private typing = new Map<string, Map<string, NodeJS.Timeout>>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleDestroy() {
+    for (const entry of this.presence.values()) {
+      clearTimeout(entry.idleTimer);
+    }
+    for (const roomTyping of this.typing.values()) {
+      for (const timer of roomTyping.values()) clearTimeout(timer);
+    }
+  }
+
+  getStatus(userId: string): PresenceStatus {
+    return this.presence.get(userId)?.status ?? 'online';
+  }
+
+  /** Define o status escolhido pelo usuário; 'online' volta ao modo automático. */
+  setStatus(userId: string, status: PresenceStatus) {
+    const entry = this.getOrCreate(userId);
+    entry.status = status;
+    entry.manual = status !== 'online';
+  }
+
+  /**
+   * Registra atividade do usuário. Sem novo heartbeat dentro do tempo de idle
+   * o status passa a 'away' e `onIdle` é chamado. Retorna true se o status
+   * mudou (ex.: voltou de 'away' automático para 'online').
+   */
+  heartbeat(userId: string, onIdle: () => void): boolean {
+    const entry = this.getOrCreate(userId);
+    let changed = false;
+
+    if (!entry.manual && entry.status !== 'online') {
+      entry.status = 'online';
+      changed = true;
+    }
+
+    clearTimeout(entry.idleTimer);
+    entry.idleTimer = setTimeout(() => {
+      entry.idleTimer = undefined;
+      if (entry.manual || entry.status === 'away') return;
+
+      entry.status = 'away';
+      onIdle();
+    }, this.configService.getOrThrow<number>('chat.presence.idleTimeoutMs'));
+
+    return changed;
+  }
+
+  /** Chamado quando a última conexão do usuário cai. */
+  disconnect(userId: string) {
+    const entry = this.presence.get(userId);
+    if (!entry) return;
+
+    clearTimeout(entry.idleTimer);
+    if (entry.manual) {
+      entry.idleTimer = undefined;
+    } else {
+      this.presence.delete(userId);
+    }
+  }
+
+  /**
+   * Marca o usuário como digitando na sala. Retorna false se ele já estava
+   * digitando (o timer é apenas renovado).
+   */
+  startTyping(roomId: string, userId: string, onExpire: () => void): boolean {
+    let roomTyping = this.typing.get(roomId);
+    if (!roomTyping) {
+      roomTyping = new Map();
+      this.typing.set(roomId, roomTyping);
+    }
+
+    const previous = roomTyping.get(userId);
+    clearTimeout(previous);
+
+    roomTyping.set(
+      userId,
+      setTimeout(() => {
+        this.clearTyping(roomId, userId);
+        onExpire();
+      }, this.configService.getOrThrow<number>('chat.presence.typingTimeoutMs')),
+    );
+
+    return !previous;
+  }
+
+  /** Retorna true se o usuário estava digitando. */
+  stopTyping(roomId: string, userId: string): boolean {
+    const timer = this.typing.get(roomId)?.get(userId);
+    if (!timer) return false;
+
+    clearTimeout(timer);
+    this.clearTyping(roomId, userId);
+    return true;
+  }
+
+  getTypingUsers(roomId: string) {
+    return [...(this.typing.get(roomId)?.keys() ?? [])];
+  }
+
+  private clearTyping(roomId: string, userId: string) {
+    const roomTyping = this.typing.get(roomId);
+    roomTyping?.delete(userId);
+    if (roomTyping?.size === 0) this.typing.delete(roomId);
+  }
+
+  private getOrCreate(userId: string) {
+    let entry = this.presence.get(userId);
+    if (!entry) {
+      entry = { status: 'online', manual: false };
+      this.presence.set(userId, entry);
+    }
+    return entry;
+  }
+}
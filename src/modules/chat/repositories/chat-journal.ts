@@ -0,0 +1,325 @@
+import {
+  Message,
+  MessageReaction,
+  Room,
+  RoomUser,
+} from '../interfaces/chat.interfaces';
+import type { ChatRepository } from './chat.repository';
+
+/** Alteração item a item de um Map (`put`) ou Set (`add`) da sala. */
+export interface CollectionPatch {
+  put?: [string, unknown][];
+  add?: string[];
+  remove?: string[];
+}
+
+/**
+ * Só o que mudou numa sala. Membros, bans, marcadores de leitura etc. mudam
+ * item a item, para que escritas simultâneas em itens diferentes não se
+ * sobrescrevam.
+ */
+export interface RoomPatch {
+  fields?: Partial<Room>;
+  unset?: string[];
+  collections?: Record<string, CollectionPatch>;
+}
+
+/** Só o que mudou numa mensagem; reações vão como pares [emoji, userId]. */
+export interface MessagePatch {
+  fields?: Partial<Message>;
+  unset?: string[];
+  reactions?: { add?: [string, string][]; remove?: [string, string][] };
+  /** Somado, não sobrescrito: respostas chegam de vários processos. */
+  replyCountDelta?: number;
+}
+
+/** Uma alteração do estado do chat, como gravada no journal ou replicada. */
+export type JournalEntry = (
+  | { type: 'room'; roomId: string; room: Partial<Room> }
+  | { type: 'room_patch'; roomId: string; patch: RoomPatch }
+  | { type: 'room_deleted'; roomId: string }
+  | { type: 'message'; roomId: string; message: Message }
+  | { type: 'message_updated'; roomId: string; message: Message }
+  | {
+      type: 'message_patch';
+      roomId: string;
+      messageId: string;
+      patch: MessagePatch;
+    }
+  | { type: 'user_name'; userId: string; userName: string }
+  | { type: 'user_room'; userId: string; roomId?: string }
+) & {
+  /** Réplica que publicou a alteração (modo cluster). */
+  origin?: string;
+};
+
+function replacer(this: Record<string, unknown>, key: string, value: unknown) {
+  const original = this[key];
+  if (original instanceof Date) return { $date: original.toISOString() };
+  if (original instanceof Map) return { $map: [...original.entries()] };
+  if (original instanceof Set) return { $set: [...original.values()] };
+  return value;
+}
+
+type Tagged = { $date?: string; $map?: [unknown, unknown][]; $set?: unknown[] };
+
+function reviver(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const tagged = value as Tagged;
+    if (tagged.$date) return new Date(tagged.$date);
+    if (tagged.$map) return new Map(tagged.$map);
+    if (tagged.$set) return new Set(tagged.$set);
+  }
+  return value;
+}
+
+/** JSON que preserva Date, Map e Set. */
+export function encodeEntry(entry: JournalEntry) {
+  return JSON.stringify(entry, replacer);
+}
+
+export function decodeEntry(line: string) {
+  return JSON.parse(line, reviver) as JournalEntry;
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify([a], replacer) === JSON.stringify([b], replacer);
+
+type Collection = Map<string, unknown> | Set<string>;
+
+const isCollection = (value: unknown): value is Collection =>
+  value instanceof Map || value instanceof Set;
+
+function diffCollection(before: unknown, after: Collection) {
+  const change: CollectionPatch = {};
+  if (after instanceof Set) {
+    const old =
+      before instanceof Set ? (before as Set<string>) : new Set<string>();
+    const add = [...after].filter((value) => !old.has(value));
+    const remove = [...old].filter((value) => !after.has(value));
+    if (add.length) change.add = add;
+    if (remove.length) change.remove = remove;
+  } else {
+    const old =
+      before instanceof Map
+        ? (before as Map<string, unknown>)
+        : new Map<string, unknown>();
+    const put = [...after].filter(
+      ([key, value]) => !old.has(key) || !sameValue(old.get(key), value),
+    );
+    const remove = [...old.keys()].filter((key) => !after.has(key));
+    if (put.length) change.put = put;
+    if (remove.length) change.remove = remove;
+  }
+  return change.put || change.add || change.remove ? change : undefined;
+}
+
+function diffFields(previous: object, next: object, skip: string[]): RoomPatch {
+  const before = previous as Record<string, unknown>;
+  const after = next as Record<string, unknown>;
+  const patch: Required<RoomPatch> = { fields: {}, unset: [], collections: {} };
+  const fields = patch.fields as Record<string, unknown>;
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (skip.includes(key)) continue;
+
+    if (after[key] === undefined) {
+      if (before[key] !== undefined) patch.unset.push(key);
+    } else if (isCollection(after[key])) {
+      const change = diffCollection(before[key], after[key]);
+      if (change) patch.collections[key] = change;
+    } else if (!sameValue(before[key], after[key])) {
+      fields[key] = after[key];
+    }
+  }
+
+  return {
+    fields: Object.keys(fields).length ? patch.fields : undefined,
+    unset: patch.unset.length ? patch.unset : undefined,
+    collections: Object.keys(patch.collections).length
+      ? patch.collections
+      : undefined,
+  };
+}
+
+const isEmptyPatch = (patch: object) =>
+  Object.values(patch).every((value) => value === undefined);
+
+/** Diferença entre duas versões da sala; `undefined` se nada mudou. */
+export function diffRoom(previous: Room, next: Room) {
+  const patch = diffFields(previous, next, ['messages']);
+  return isEmptyPatch(patch) ? undefined : patch;
+}
+
+/** Aplica a diferença no próprio objeto da sala. */
+export function applyRoomPatch(room: Room, patch: RoomPatch) {
+  const target = room as unknown as Record<string, unknown>;
+  Object.assign(room, patch.fields);
+  patch.unset?.forEach((key) => delete target[key]);
+
+  for (const [key, change] of Object.entries(patch.collections ?? {})) {
+    if (!target[key]) {
+      if (change.put) target[key] = new Map();
+      else if (change.add) target[key] = new Set();
+      else continue;
+    }
+
+    const collection = target[key] as Collection;
+    if (collection instanceof Map) {
+      change.put?.forEach(([k, value]) => collection.set(k, value));
+    } else {
+      change.add?.forEach((value) => collection.add(value));
+    }
+    change.remove?.forEach((value) => collection.delete(value));
+  }
+}
+
+const reactionPairs = (reactions: MessageReaction[] = []) =>
+  reactions.flatMap((r) =>
+    r.userIds.map((userId): [string, string] => [r.emoji, userId]),
+  );
+
+/** Diferença entre duas versões da mensagem; `undefined` se nada mudou. */
+export function diffMessage(previous: Message, next: Message) {
+  const patch: MessagePatch = diffFields(previous, next, [
+    'reactions',
+    'replyCount',
+  ]) as MessagePatch;
+
+  if (!next.reactions) {
+    if (previous.reactions) patch.unset = [...(patch.unset ?? []), 'reactions'];
+  } else {
+    const before = reactionPairs(previous.reactions);
+    const after = reactionPairs(next.reactions);
+    const missing = (pairs: [string, string][]) => (pair: [string, string]) =>
+      !pairs.some(([emoji, userId]) => emoji === pair[0] && userId === pair[1]);
+    const add = after.filter(missing(before));
+    const remove = before.filter(missing(after));
+    if (add.length || remove.length) {
+      patch.reactions = {
+        add: add.length ? add : undefined,
+        remove: remove.length ? remove : undefined,
+      };
+    } else if (!previous.reactions) {
+      patch.fields = { ...patch.fields, reactions: [] };
+    }
+  }
+
+  const delta = (next.replyCount ?? 0) - (previous.replyCount ?? 0);
+  if (delta) patch.replyCountDelta = delta;
+
+  return isEmptyPatch(patch) ? undefined : patch;
+}
+
+/** Nova versão da mensagem com a diferença aplicada. */
+export function applyMessagePatch(message: Message, patch: MessagePatch) {
+  const next = { ...message, ...patch.fields } as Message &
+    Record<string, unknown>;
+  patch.unset?.forEach((key) => delete next[key]);
+
+  if (patch.reactions && !next.deletedAt) {
+    const reactions = (next.reactions ?? []).map((r) => ({
+      emoji: r.emoji,
+      userIds: [...r.userIds],
+    }));
+    for (const [emoji, userId] of patch.reactions.add ?? []) {
+      const existing = reactions.find((r) => r.emoji === emoji);
+      if (!existing) reactions.push({ emoji, userIds: [userId] });
+      else if (!existing.userIds.includes(userId))
+        existing.userIds.push(userId);
+    }
+    for (const [emoji, userId] of patch.reactions.remove ?? []) {
+      const existing = reactions.find((r) => r.emoji === emoji);
+      if (existing) {
+        existing.userIds = existing.userIds.filter((id) => id !== userId);
+      }
+    }
+    next.reactions = reactions.filter((r) => r.userIds.length > 0);
+  }
+
+  if (patch.replyCountDelta) {
+    next.replyCount = Math.max(
+      0,
+      (message.replyCount ?? 0) + patch.replyCountDelta,
+    );
+  }
+
+  return next as Message;
+}
+
+/** Reaplica a alteração em qualquer backend usando só a API pública. */
+export function applyEntry(repository: ChatRepository, entry: JournalEntry) {
+  switch (entry.type) {
+    case 'room':
+      repository.saveRoom(entry.roomId, {
+        ...(entry.room as Room),
+        users: entry.room.users ?? new Map<string, RoomUser>(),
+        messages: repository.getRoom(entry.roomId)?.messages ?? [],
+      });
+      break;
+    case 'room_patch': {
+      const room = repository.getRoom(entry.roomId);
+      if (room) {
+        applyRoomPatch(room, entry.patch);
+        repository.saveRoom(entry.roomId, room);
+      }
+      break;
+    }
+    case 'room_deleted':
+      repository.deleteRoom(entry.roomId);
+      break;
+    case 'message':
+      repository.appendMessage(entry.roomId, entry.message);
+      break;
+    case 'message_updated':
+      repository.updateMessage(entry.roomId, entry.message);
+      break;
+    case 'message_patch': {
+      const message = repository
+        .getRoom(entry.roomId)
+        ?.messages.find((m) => m.id === entry.messageId);
+      if (message) {
+        repository.updateMessage(
+          entry.roomId,
+          applyMessagePatch(message, entry.patch),
+        );
+      }
+      break;
+    }
+    case 'user_name':
+      repository.saveUserName(entry.userId, entry.userName);
+      break;
+    case 'user_room':
+      repository.saveUserRoom(entry.userId, entry.roomId);
+      break;
+  }
+}
+
+/**
+ * Estado completo como sequência de alterações, incluindo o que não é
+ * persistido (usuários conectados e sala atual de cada um).
+ */
+export function snapshotEntries(repository: ChatRepository): JournalEntry[] {
+  const entries: JournalEntry[] = [];
+
+  for (const [userId, userName] of repository.getUserNameEntries()) {
+    entries.push({ type: 'user_name', userId, userName });
+  }
+
+  for (const [roomId, room] of repository.getRoomEntries()) {
+    entries.push({
+      type: 'room',
+      roomId,
+      room: { ...room, messages: undefined },
+    });
+    for (const message of room.messages) {
+      entries.push({ type: 'message', roomId, message });
+    }
+  }
+
+  for (const [userId, roomId] of repository.getUserRoomEntries()) {
+    entries.push({ type: 'user_room', userId, roomId });
+  }
+
+  return entries;
+}
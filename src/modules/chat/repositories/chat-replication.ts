@@ -0,0 +1,166 @@
+import cluster, { Worker } from 'cluster';
+import { ChatRepository } from './chat.repository';
+import {
+  applyEntry,
+  decodeEntry,
+  encodeEntry,
+  snapshotEntries,
+} from './chat-journal';
+
+/**
+ * Canal entre uma réplica do estado do chat e o hub que guarda a cópia
+ * autoritativa. As linhas trafegam já codificadas (ver `encodeEntry`).
+ */
+export abstract class ChatReplicationChannel {
+  abstract publish(line: string): void;
+
+  abstract onEntry(listener: (line: string) => void): void;
+
+  /** Estado completo do hub; alterações recebidas antes dele já estão incluídas. */
+  abstract fetchSnapshot(): Promise<string[]>;
+}
+
+/**
+ * Dono do estado compartilhado: aplica cada alteração no próprio
+ * repositório (memória ou arquivo) e a repassa a todas as réplicas,
+ * inclusive à de origem. Como aplicar e repassar é síncrono, cada réplica vê
+ * as alterações na mesma ordem em que o hub as aplicou.
+ */
+export class ChatStateHub {
+  constructor(private readonly store: ChatRepository) {}
+
+  receive(line: string, deliver: (line: string) => void) {
+    applyEntry(this.store, decodeEntry(line));
+    deliver(line);
+  }
+
+  snapshot() {
+    return snapshotEntries(this.store).map(encodeEntry);
+  }
+}
+
+const MESSAGE_SOURCE = '_chat_state';
+
+type StateMessage =
+  | { source: typeof MESSAGE_SOURCE; type: 'entry'; line: string }
+  | { source: typeof MESSAGE_SOURCE; type: 'snapshot_request' }
+  | { source: typeof MESSAGE_SOURCE; type: 'snapshot'; lines: string[] };
+
+const isStateMessage = (message: unknown): message is StateMessage =>
+  (message as StateMessage | undefined)?.source === MESSAGE_SOURCE;
+
+/** Liga o hub aos workers do `cluster` do Node; roda no processo primário. */
+export function setupPrimaryChatState(store: ChatRepository) {
+  const hub = new ChatStateHub(store);
+
+  cluster.on('message', (worker: Worker, message: unknown) => {
+    if (!isStateMessage(message)) return;
+
+    switch (message.type) {
+      case 'entry':
+        hub.receive(message.line, (line) => {
+          for (const target of Object.values(cluster.workers ?? {})) {
+            target?.send({ source: MESSAGE_SOURCE, type: 'entry', line });
+          }
+        });
+        break;
+      case 'snapshot_request':
+        worker.send({
+          source: MESSAGE_SOURCE,
+          type: 'snapshot',
+          lines: hub.snapshot(),
+        });
+        break;
+    }
+  });
+
+  return hub;
+}
+
+/** Canal de um worker do `cluster`, via IPC com o processo primário. */
+export class ProcessReplicationChannel extends ChatReplicationChannel {
+  private listeners: ((line: string) => void)[] = [];
+  private pendingSnapshot?: (lines: string[]) => void;
+
+  constructor() {
+    super();
+    process.on('message', (message: unknown) => {
+      if (!isStateMessage(message)) return;
+
+      if (message.type === 'entry') {
+        this.listeners.forEach((listener) => listener(message.line));
+      } else if (message.type === 'snapshot') {
+        this.pendingSnapshot?.(message.lines);
+        this.pendingSnapshot = undefined;
+      }
+    });
+  }
+
+  publish(line: string) {
+    process.send?.({ source: MESSAGE_SOURCE, type: 'entry', line });
+  }
+
+  onEntry(listener: (line: string) => void) {
+    this.listeners.push(listener);
+  }
+
+  fetchSnapshot() {
+    return new Promise<string[]>((resolve) => {
+      this.pendingSnapshot = resolve;
+      process.send?.({ source: MESSAGE_SOURCE, type: 'snapshot_request' });
+    });
+  }
+}
+
+/**
+ * Substituto em processo do primário: várias réplicas no mesmo processo
+ * compartilham o estado sem `cluster` nem IPC. Útil em testes locais.
+ */
+export class LocalReplicationHub {
+  private readonly hub: ChatStateHub;
+  private channels: LocalReplicationChannel[] = [];
+
+  constructor(store: ChatRepository) {
+    this.hub = new ChatStateHub(store);
+  }
+
+  createChannel(): ChatReplicationChannel {
+    const channel = new LocalReplicationChannel(this);
+    this.channels.push(channel);
+    return channel;
+  }
+
+  publish(line: string) {
+    this.hub.receive(line, (delivered) => {
+      this.channels.forEach((channel) => channel.deliver(delivered));
+    });
+  }
+
+  snapshot() {
+    return this.hub.snapshot();
+  }
+}
+
+class LocalReplicationChannel extends ChatReplicationChannel {
+  private listeners: ((line: string) => void)[] = [];
+
+  constructor(private readonly hub: LocalReplicationHub) {
+    super();
+  }
+
+  publish(line: string) {
+    this.hub.publish(line);
+  }
+
+  onEntry(listener: (line: string) => void) {
+    this.listeners.push(listener);
+  }
+
+  deliver(line: string) {
+    this.listeners.forEach((listener) => listener(line));
+  }
+
+  fetchSnapshot() {
+    return Promise.resolve(this.hub.snapshot());
+  }
+}
@@ -0,0 +1,38 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import cluster from 'cluster';
+import { ChatRepository } from './chat.repository';
+import { ProcessReplicationChannel } from './chat-replication';
+import { InMemoryChatRepository } from './in-memory-chat.repository';
+import { JsonFileChatRepository } from './json-file-chat.repository';
+import { ReplicatedChatRepository } from './replicated-chat.repository';
+
+/** Backend configurado em `chat.storage`; no modo cluster é o do primário. */
+export function createChatRepository(
+  configService: ConfigService,
+): ChatRepository {
+  const driver = configService.get<string>('chat.storage.driver');
+
+  switch (driver) {
+    case 'memory':
+      return new InMemoryChatRepository();
+    case 'file':
+      return new JsonFileChatRepository(
+        configService.getOrThrow<string>('chat.storage.filePath'),
+      );
+    default:
+      throw new Error(`Unknown chat storage driver: ${driver}`);
+  }
+}
+
+export const chatRepositoryProvider: Provider = {
+  provide: ChatRepository,
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService) => {
+    if (configService.get<boolean>('cluster.enabled') && cluster.isWorker) {
+      return ReplicatedChatRepository.connect(new ProcessReplicationChannel());
+    }
+
+    return createChatRepository(configService);
+  },
+};
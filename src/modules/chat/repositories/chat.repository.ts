@@ -0,0 +1,45 @@
+import { Message, Room } from '../interfaces/chat.interfaces';
+import type { JournalEntry } from './chat-journal';
+
+/**
+ * Armazenamento do estado do chat. As implementações são síncronas para que
+ * o ChatService (e os gateways) se comportem igual com qualquer backend.
+ */
+export abstract class ChatRepository {
+  protected remoteChangeListeners: ((change: JournalEntry) => void)[] = [];
+
+  abstract getRoom(roomId: string): Room | undefined;
+
+  abstract getRoomEntries(): [string, Room][];
+
+  /** Persiste a sala após qualquer alteração feita no objeto em memória. */
+  abstract saveRoom(roomId: string, room: Room): void;
+
+  abstract deleteRoom(roomId: string): void;
+
+  abstract appendMessage(roomId: string, message: Message): void;
+
+  /** Substitui a mensagem de mesmo id (edição, exclusão lógica etc.). */
+  abstract updateMessage(roomId: string, message: Message): void;
+
+  abstract getUserName(userId: string): string | undefined;
+
+  abstract getUserNameEntries(): [string, string][];
+
+  abstract saveUserName(userId: string, userName: string): void;
+
+  /** Sala em que o usuário está agora; não é persistida. */
+  abstract getUserRoom(userId: string): string | undefined;
+
+  abstract getUserRoomEntries(): [string, string][];
+
+  abstract saveUserRoom(userId: string, roomId: string | undefined): void;
+
+  /**
+   * Alterações feitas por outros processos (modo cluster). Backends de um
+   * único processo nunca chamam o listener.
+   */
+  onRemoteChange(listener: (change: JournalEntry) => void) {
+    this.remoteChangeListeners.push(listener);
+  }
+}
@@ -0,0 +1,61 @@
+import { Message, Room } from '../interfaces/chat.interfaces';
+import { ChatRepository } from './chat.repository';
+
+export class InMemoryChatRepository extends ChatRepository {
+  protected rooms = new Map<string, Room>();
+  protected userNames = new Map<string, string>();
+  protected userRooms = new Map<string, string>();
+
+  getRoom(roomId: string) {
+    return this.rooms.get(roomId);
+  }
+
+  getRoomEntries() {
+    return [...this.rooms.entries()];
+  }
+
+  saveRoom(roomId: string, room: Room) {
+    this.rooms.set(roomId, room);
+  }
+
+  deleteRoom(roomId: string) {
+    this.rooms.delete(roomId);
+  }
+
+  appendMessage(roomId: string, message: Message) {
+    this.rooms.get(roomId)?.messages.push(message);
+  }
+
+  updateMessage(roomId: string, message: Message) {
+    const messages = this.rooms.get(roomId)?.messages;
+    const index = messages?.findIndex((m) => m.id === message.id) ?? -1;
+    if (messages && index !== -1) {
+      messages[index] = message;
+    }
+  }
+
+  getUserName(userId: string) {
+    return this.userNames.get(userId);
+  }
+
+  getUserNameEntries() {
+    return [...this.userNames.entries()];
+  }
+
+  saveUserName(userId: string, userName: string) {
+    this.userNames.set(userId, userName);
+  }
+
+  getUserRoom(userId: string) {
+    return this.userRooms.get(userId);
+  }
+
+  getUserRoomEntries() {
+    return [...this.userRooms.entries()];
+  }
+
+  saveUserRoom(userId: string, roomId: string | undefined) {
+    if (roomId) this.userRooms.set(userId, roomId);
+    else this.userRooms.delete(userId);
+  }
+}
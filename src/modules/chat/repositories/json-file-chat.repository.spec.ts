@@ -0,0 +1,116 @@
+import { Logger } from '@nestjs/common';
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Message, Room } from '../interfaces/chat.interfaces';
+import { decodeEntry } from './chat-journal';
+import { JsonFileChatRepository } from './json-file-chat.repository';
+
+const room = (creatorId: string): Room => ({
+  users: new Map(),
+  messages: [],
+  isPrivate: true,
+  allowedUsers: new Set([creatorId]),
+  creatorId,
+});
+
+const message = (id: string, text: string): Message => ({
+  id,
+  userId: 'alice',
+  userName: 'alice',
+  message: text,
+  timestamp: new Date('2026-01-01T00:00:00Z'),
+});
+
+describe('JsonFileChatRepository', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'chat-journal-'));
+    filePath = join(dir, 'data', 'chat.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const journal = () =>
+    readFileSync(filePath, 'utf8').split('\n').filter(Boolean).map(decodeEntry);
+
+  it('restores rooms, messages and user names after a restart', () => {
+    const repository = new JsonFileChatRepository(filePath);
+    repository.saveRoom('geral', room('owner'));
+    repository.appendMessage('geral', message('1', 'oi'));
+    repository.updateMessage('geral', {
+      ...message('1', 'olá'),
+      editedAt: new Date(),
+    });
+    repository.saveUserName('alice', 'Alice');
+
+    const restored = new JsonFileChatRepository(filePath);
+    const stored = restored.getRoom('geral')!;
+
+    expect(stored.allowedUsers).toEqual(new Set(['owner']));
+    expect(stored.users).toEqual(new Map());
+    expect(stored.messages).toHaveLength(1);
+    expect(stored.messages[0].message).toBe('olá');
+    expect(stored.messages[0].timestamp).toBeInstanceOf(Date);
+    expect(stored.messages[0].editedAt).toBeInstanceOf(Date);
+    expect(restored.getUserName('alice')).toBe('Alice');
+  });
+
+  it('compacts the journal on startup', () => {
+    const repository = new JsonFileChatRepository(filePath);
+    repository.saveRoom('geral', room('owner'));
+    repository.saveRoom('temporaria', room('owner'));
+    repository.appendMessage('geral', message('1', 'a'));
+    repository.updateMessage('geral', message('1', 'b'));
+    repository.updateMessage('geral', message('1', 'c'));
+    repository.deleteRoom('temporaria');
+    repository.saveUserName('alice', 'Alice');
+    repository.saveUserName('alice', 'Alice B.');
+    expect(journal()).toHaveLength(8);
+
+    new JsonFileChatRepository(filePath);
+
+    expect(journal()).toEqual([
+      { type: 'user_name', userId: 'alice', userName: 'Alice B.' },
+      expect.objectContaining({ type: 'room', roomId: 'geral' }),
+      {
+        type: 'message',
+        roomId: 'geral',
+        message: message('1', 'c'),
+      },
+    ]);
+  });
+
+  it('skips unchanged rooms and messages for unknown rooms', () => {
+    const repository = new JsonFileChatRepository(filePath);
+    const geral = room('owner');
+    repository.saveRoom('geral', geral);
+
+    geral.users.set('alice', { id: 'alice', name: 'Alice' });
+    repository.saveRoom('geral', geral);
+    repository.appendMessage('inexistente', message('1', 'a'));
+
+    expect(journal()).toHaveLength(1);
+  });
+
+  it('recovers the rest of the journal after a truncated line', () => {
+    const repository = new JsonFileChatRepository(filePath);
+    repository.saveRoom('geral', room('owner'));
+    appendFileSync(filePath, '{"type":"message","roomId":"ger\n');
+    repository.appendMessage('geral', message('1', 'depois'));
+
+    const restored = new JsonFileChatRepository(filePath);
+
+    expect(restored.getRoom('geral')!.messages.map((m) => m.message)).toEqual([
+      'depois',
+    ]);
+  });
+});
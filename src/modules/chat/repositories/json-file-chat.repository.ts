@@ -0,0 +1,155 @@
+import { Logger } from '@nestjs/common';
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from 'fs';
+import { dirname } from 'path';
+import { Message, Room } from '../interfaces/chat.interfaces';
+import { decodeEntry, encodeEntry, JournalEntry } from './chat-journal';
+import { InMemoryChatRepository } from './in-memory-chat.repository';
+
+/**
+ * Backend local em arquivo: cada alteração vira uma linha JSON anexada ao
+ * journal, que é reexecutado (e compactado) na inicialização.
+ */
+export class JsonFileChatRepository extends InMemoryChatRepository {
+  private readonly logger = new Logger(JsonFileChatRepository.name);
+  private lastSavedRooms = new Map<string, string>();
+
+  constructor(private readonly filePath: string) {
+    super();
+    mkdirSync(dirname(filePath), { recursive: true });
+    this.load();
+    this.compact();
+  }
+
+  saveRoom(roomId: string, room: Room) {
+    super.saveRoom(roomId, room);
+
+    const entry = this.serialize({
+      type: 'room',
+      roomId,
+      room: this.toStoredRoom(room),
+    });
+    // Entrar/sair de uma sala altera só os usuários conectados, que não são
+    // persistidos; nesses casos não há nada novo para gravar.
+    if (this.lastSavedRooms.get(roomId) === entry) return;
+
+    this.lastSavedRooms.set(roomId, entry);
+    this.append(entry);
+  }
+
+  deleteRoom(roomId: string) {
+    super.deleteRoom(roomId);
+    this.lastSavedRooms.delete(roomId);
+    this.append(this.serialize({ type: 'room_deleted', roomId }));
+  }
+
+  appendMessage(roomId: string, message: Message) {
+    if (!this.rooms.has(roomId)) return;
+
+    super.appendMessage(roomId, message);
+    this.append(this.serialize({ type: 'message', roomId, message }));
+  }
+
+  updateMessage(roomId: string, message: Message) {
+    if (!this.rooms.has(roomId)) return;
+
+    super.updateMessage(roomId, message);
+    this.append(this.serialize({ type: 'message_updated', roomId, message }));
+  }
+
+  saveUserName(userId: string, userName: string) {
+    super.saveUserName(userId, userName);
+    this.append(this.serialize({ type: 'user_name', userId, userName }));
+  }
+
+  private toStoredRoom(room: Room): Partial<Room> {
+    return { ...room, users: undefined, messages: undefined };
+  }
+
+  private serialize(entry: JournalEntry) {
+    return encodeEntry(entry);
+  }
+
+  private append(line: string) {
+    appendFileSync(this.filePath, line + '\n');
+  }
+
+  private load() {
+    if (!existsSync(this.filePath)) return;
+
+    const lines = readFileSync(this.filePath, 'utf8').split('\n');
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) continue;
+
+      try {
+        this.apply(decodeEntry(line));
+      } catch {
+        // Uma linha truncada (ex.: queda durante a escrita) não deve impedir
+        // a recuperação do restante do journal.
+        this.logger.warn(`Linha ${index + 1} inválida em ${this.filePath}`);
+      }
+    }
+
+    this.logger.log(
+      `📂 ${this.rooms.size} salas carregadas de ${this.filePath}`,
+    );
+  }
+
+  private apply(entry: JournalEntry) {
+    switch (entry.type) {
+      case 'room': {
+        const existing = this.rooms.get(entry.roomId);
+        this.rooms.set(entry.roomId, {
+          ...(entry.room as Room),
+          users: new Map(),
+          messages: existing?.messages ?? [],
+        });
+        break;
+      }
+      case 'room_deleted':
+        this.rooms.delete(entry.roomId);
+        break;
+      case 'message':
+        this.rooms.get(entry.roomId)?.messages.push(entry.message);
+        break;
+      case 'message_updated':
+        super.updateMessage(entry.roomId, entry.message);
+        break;
+      case 'user_name':
+        this.userNames.set(entry.userId, entry.userName);
+        break;
+    }
+  }
+
+  private compact() {
+    const lines: string[] = [];
+
+    for (const [userId, userName] of this.userNames) {
+      lines.push(this.serialize({ type: 'user_name', userId, userName }));
+    }
+
+    for (const [roomId, room] of this.rooms) {
+      const entry = this.serialize({
+        type: 'room',
+        roomId,
+        room: this.toStoredRoom(room),
+      });
+      this.lastSavedRooms.set(roomId, entry);
+      lines.push(entry);
+
+      for (const message of room.messages) {
+        lines.push(this.serialize({ type: 'message', roomId, message }));
+      }
+    }
+
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, lines.map((line) => line + '\n').join(''));
+    renameSync(tmpPath, this.filePath);
+  }
+}
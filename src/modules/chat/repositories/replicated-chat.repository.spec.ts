@@ -0,0 +1,162 @@
+import { Logger } from '@nestjs/common';
+import { ChatService } from '../chat.service';
+import {
+  ChatReplicationChannel,
+  LocalReplicationHub,
+} from './chat-replication';
+import { InMemoryChatRepository } from './in-memory-chat.repository';
+import { ReplicatedChatRepository } from './replicated-chat.repository';
+
+/** Segura o que o hub entrega, como um processo que ainda não leu o IPC. */
+class HeldChannel extends ChatReplicationChannel {
+  private listeners: ((line: string) => void)[] = [];
+  private held: string[] = [];
+  holding = false;
+
+  constructor(private readonly inner: ChatReplicationChannel) {
+    super();
+    inner.onEntry((line) => {
+      if (this.holding) this.held.push(line);
+      else this.listeners.forEach((listener) => listener(line));
+    });
+  }
+
+  publish(line: string) {
+    this.inner.publish(line);
+  }
+
+  onEntry(listener: (line: string) => void) {
+    this.listeners.push(listener);
+  }
+
+  fetchSnapshot() {
+    return this.inner.fetchSnapshot();
+  }
+
+  release() {
+    this.holding = false;
+    const lines = this.held.splice(0);
+    lines.forEach((line) => this.listeners.forEach((l) => l(line)));
+  }
+}
+
+describe('ReplicatedChatRepository', () => {
+  let store: InMemoryChatRepository;
+  let hub: LocalReplicationHub;
+  let slowChannel: HeldChannel;
+  let repositoryA: ReplicatedChatRepository;
+  let repositoryB: ReplicatedChatRepository;
+  let serviceA: ChatService;
+  let serviceB: ChatService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    store = new InMemoryChatRepository();
+    hub = new LocalReplicationHub(store);
+    repositoryA = await ReplicatedChatRepository.connect(hub.createChannel());
+    slowChannel = new HeldChannel(hub.createChannel());
+    repositoryB = await ReplicatedChatRepository.connect(slowChannel);
+    serviceA = new ChatService(repositoryA);
+    serviceB = new ChatService(repositoryB);
+
+    serviceA.createRoom('geral', 'owner');
+  });
+
+  /** B escreve sem ter visto o que A acabou de publicar. */
+  function concurrently(writeA: () => void, writeB: () => void) {
+    slowChannel.holding = true;
+    writeA();
+    writeB();
+    slowChannel.release();
+  }
+
+  it('keeps concurrent writes to different items of the same room', () => {
+    concurrently(
+      () => serviceA.banUser('geral', 'owner', 'alice'),
+      () => serviceB.muteUser('geral', 'owner', 'bob', 60),
+    );
+
+    for (const repository of [store, repositoryA, repositoryB]) {
+      const room = repository.getRoom('geral')!;
+      expect([...room.bans!.keys()]).toEqual(['alice']);
+      expect([...room.mutes!.keys()]).toEqual(['bob']);
+    }
+  });
+
+  it('keeps reactions and replies made at the same time in two processes', () => {
+    const message = serviceA.addMessage('geral', {
+      userId: 'owner',
+      userName: 'Owner',
+      message: 'oi',
+      timestamp: new Date(),
+    })!;
+    const reply = (service: ChatService, userId: string) =>
+      service.addReply('geral', message.id, {
+        userId,
+        userName: userId,
+        message: 'resposta',
+        timestamp: new Date(),
+      });
+
+    concurrently(
+      () => {
+        serviceA.addReaction('geral', message.id, 'alice', '👍');
+        reply(serviceA, 'alice');
+      },
+      () => {
+        serviceB.addReaction('geral', message.id, 'bob', '👍');
+        reply(serviceB, 'bob');
+      },
+    );
+
+    for (const repository of [store, repositoryA, repositoryB]) {
+      const room = repository.getRoom('geral')!;
+      const root = room.messages.find((m) => m.id === message.id)!;
+      expect(root.reactions).toHaveLength(1);
+      expect([...root.reactions![0].userIds].sort()).toEqual(['alice', 'bob']);
+      expect(root.replyCount).toBe(2);
+      expect(room.messages).toHaveLength(3);
+    }
+  });
+
+  it('converges on the hub order when both write the same item', () => {
+    const first = serviceA.addMessage('geral', {
+      userId: 'owner',
+      userName: 'Owner',
+      message: 'um',
+      timestamp: new Date(),
+    })!;
+    const second = serviceA.addMessage('geral', {
+      userId: 'owner',
+      userName: 'Owner',
+      message: 'dois',
+      timestamp: new Date(),
+    })!;
+
+    concurrently(
+      () => serviceA.markRead('geral', 'alice', second.id),
+      () => serviceB.markRead('geral', 'alice', first.id),
+    );
+
+    for (const repository of [store, repositoryA, repositoryB]) {
+      const marker = repository.getRoom('geral')!.readMarkers!.get('alice');
+      expect(marker?.messageId).toBe(first.id);
+    }
+  });
+
+  it('applies remote message edits to the other process', () => {
+    const message = serviceA.addMessage('geral', {
+      userId: 'owner',
+      userName: 'Owner',
+      message: 'oi',
+      timestamp: new Date(),
+    })!;
+    serviceA.editMessage('geral', message.id, 'owner', 'olá pessoal');
+
+    const [hit] = serviceB.searchMessages('owner', { query: 'pessoal' });
+    expect(hit?.message.message).toBe('olá pessoal');
+  });
+});
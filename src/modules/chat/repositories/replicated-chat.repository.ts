@@ -0,0 +1,185 @@
+import { Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Message, Room } from '../interfaces/chat.interfaces';
+import {
+  applyEntry,
+  applyRoomPatch,
+  decodeEntry,
+  diffMessage,
+  diffRoom,
+  encodeEntry,
+  JournalEntry,
+} from './chat-journal';
+import { ChatReplicationChannel } from './chat-replication';
+import { InMemoryChatRepository } from './in-memory-chat.repository';
+
+/**
+ * Backend do modo cluster: cópia local em memória, sincronizada com o hub
+ * (processo primário ou `LocalReplicationHub`). Cada escrita é aplicada aqui
+ * na hora e publicada; as dos outros processos chegam pelo canal.
+ *
+ * Só a diferença de cada escrita é publicada (ver `diffRoom`), então
+ * escritas simultâneas em itens diferentes da mesma sala se somam. No mesmo
+ * item vale a ordem do hub: ele devolve a alteração também à réplica de
+ * origem, que a reaplica e converge com as demais.
+ */
+export class ReplicatedChatRepository extends InMemoryChatRepository {
+  private readonly logger = new Logger(ReplicatedChatRepository.name);
+  private readonly id = randomUUID();
+  /** Última versão publicada de cada sala, base para a próxima diferença. */
+  private published = new Map<string, Room>();
+  private applyingRemote = false;
+  private ready = false;
+
+  private constructor(private readonly channel: ChatReplicationChannel) {
+    super();
+    channel.onEntry((line) => {
+      // O snapshot já contém tudo que chegou antes dele
+      if (this.ready) this.applyRemote(decodeEntry(line));
+    });
+  }
+
+  static async connect(channel: ChatReplicationChannel) {
+    const repository = new ReplicatedChatRepository(channel);
+    await repository.loadSnapshot();
+    return repository;
+  }
+
+  saveRoom(roomId: string, room: Room) {
+    super.saveRoom(roomId, room);
+    if (this.applyingRemote) return;
+
+    const previous = this.published.get(roomId);
+    this.published.set(roomId, snapshotRoom(room));
+    if (!previous) {
+      this.publish({
+        type: 'room',
+        roomId,
+        room: { ...room, messages: undefined },
+      });
+      return;
+    }
+
+    const patch = diffRoom(previous, room);
+    if (patch) this.publish({ type: 'room_patch', roomId, patch });
+  }
+
+  deleteRoom(roomId: string) {
+    super.deleteRoom(roomId);
+    this.published.delete(roomId);
+    this.publish({ type: 'room_deleted', roomId });
+  }
+
+  appendMessage(roomId: string, message: Message) {
+    if (!this.rooms.has(roomId)) return;
+
+    super.appendMessage(roomId, message);
+    this.publish({ type: 'message', roomId, message });
+  }
+
+  updateMessage(roomId: string, message: Message) {
+    const previous = this.rooms
+      .get(roomId)
+      ?.messages.find((m) => m.id === message.id);
+    if (!previous) return;
+
+    super.updateMessage(roomId, message);
+    const patch = diffMessage(previous, message);
+    if (patch) {
+      this.publish({
+        type: 'message_patch',
+        roomId,
+        messageId: message.id,
+        patch,
+      });
+    }
+  }
+
+  saveUserName(userId: string, userName: string) {
+    super.saveUserName(userId, userName);
+    this.publish({ type: 'user_name', userId, userName });
+  }
+
+  saveUserRoom(userId: string, roomId: string | undefined) {
+    super.saveUserRoom(userId, roomId);
+    this.publish({ type: 'user_room', userId, roomId });
+  }
+
+  private async loadSnapshot() {
+    const lines = await this.channel.fetchSnapshot();
+
+    this.applyingRemote = true;
+    try {
+      lines.forEach((line) => applyEntry(this, decodeEntry(line)));
+    } finally {
+      this.applyingRemote = false;
+    }
+    for (const [roomId, room] of this.rooms) {
+      this.published.set(roomId, snapshotRoom(room));
+    }
+    this.ready = true;
+
+    this.logger.log(`🔄 ${this.rooms.size} salas sincronizadas do cluster`);
+  }
+
+  private applyRemote(entry: JournalEntry) {
+    const own = entry.origin === this.id;
+    // A própria alteração já foi aplicada: o eco só fixa a ordem do hub, sem
+    // duplicar mensagens nem somar o contador de novo
+    if (own && entry.type === 'message') return;
+    if (own && entry.type === 'message_patch') {
+      entry = {
+        ...entry,
+        patch: { ...entry.patch, replyCountDelta: undefined },
+      };
+    }
+
+    this.applyingRemote = true;
+    try {
+      applyEntry(this, entry);
+    } finally {
+      this.applyingRemote = false;
+    }
+    this.trackPublished(entry);
+
+    if (own) return;
+    let change = entry;
+    if (entry.type === 'message_patch') {
+      const { roomId, messageId } = entry;
+      const message = this.rooms
+        .get(roomId)
+        ?.messages.find((m) => m.id === messageId);
+      if (!message) return;
+      change = { type: 'message_updated', roomId, message };
+    }
+    this.remoteChangeListeners.forEach((listener) => listener(change));
+  }
+
+  /** Mantém a base das diferenças em dia com o que veio do hub. */
+  private trackPublished(entry: JournalEntry) {
+    switch (entry.type) {
+      case 'room': {
+        const room = this.rooms.get(entry.roomId);
+        if (room) this.published.set(entry.roomId, snapshotRoom(room));
+        break;
+      }
+      case 'room_patch': {
+        const previous = this.published.get(entry.roomId);
+        if (previous) applyRoomPatch(previous, structuredClone(entry.patch));
+        break;
+      }
+      case 'room_deleted':
+        this.published.delete(entry.roomId);
+        break;
+    }
+  }
+
+  private publish(entry: JournalEntry) {
+    if (this.applyingRemote) return;
+    this.channel.publish(encodeEntry({ ...entry, origin: this.id }));
+  }
+}
+
+/** Cópia independente da sala, sem as mensagens. */
+const snapshotRoom = (room: Room): Room =>
+  structuredClone({ ...room, messages: [] });
@@ -0,0 +1,25 @@
+import { hashRoomPassword, verifyRoomPasswordHash } from './room-password';
+
+describe('room password hashing', () => {
+  it('stores a salted scrypt hash, never the password', () => {
+    const stored = hashRoomPassword('s3nha');
+
+    expect(stored).toMatch(/^scrypt\$[\w-]+\$[\w-]+$/);
+    expect(stored).not.toContain('s3nha');
+    expect(hashRoomPassword('s3nha')).not.toBe(stored);
+  });
+
+  it('verifies only the original password', () => {
+    const stored = hashRoomPassword('s3nha');
+
+    expect(verifyRoomPasswordHash('s3nha', stored)).toBe(true);
+    expect(verifyRoomPasswordHash('S3nha', stored)).toBe(false);
+    expect(verifyRoomPasswordHash('', stored)).toBe(false);
+  });
+
+  it('rejects malformed or unknown hash formats', () => {
+    expect(verifyRoomPasswordHash('s3nha', 's3nha')).toBe(false);
+    expect(verifyRoomPasswordHash('s3nha', 'bcrypt$abc$def')).toBe(false);
+    expect(verifyRoomPasswordHash('s3nha', 'scrypt$$')).toBe(false);
+  });
+});
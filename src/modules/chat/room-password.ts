@@ -0,0 +1,26 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+const KEY_LENGTH = 64;
+
+/** Gera o hash no formato `scrypt$<salt>$<hash>` (base64url). */
+export function hashRoomPassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+}
+
+export function verifyRoomPasswordHash(
+  password: string,
+  stored: string,
+): boolean {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64url');
+  const actual = scryptSync(
+    password,
+    Buffer.from(salt, 'base64url'),
+    expected.length,
+  );
+  return timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,242 @@
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiCreatedResponse,
+  ApiNoContentResponse,
+  ApiOkResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CurrentUserId, HttpAuthGuard } from '../auth/http-auth.guard';
+import { AttachmentService } from './attachment.service';
+import { ChatGateway } from './chat.gateway';
+import { ChatService } from './chat.service';
+import { CreateInviteDto } from './dto/create-invite.dto';
+import {
+  CreateRoomDto,
+  RoomDetailsDto,
+  RoomSummaryDto,
+} from './dto/create-room.dto';
+import { GetMessagesQueryDto } from './dto/get-messages.dto';
+import { JoinRoomDto, RoomMembersDto } from './dto/join-room.dto';
+import { MessageDto, MessagePageDto, SendMessageDto } from './dto/message.dto';
+import { InviteService } from './invite.service';
+
+@ApiTags('rooms')
+@ApiBearerAuth()
+@UseGuards(HttpAuthGuard)
+@Controller('rooms')
+export class RoomsController {
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly chatGateway: ChatGateway,
+    private readonly inviteService: InviteService,
+    private readonly attachmentService: AttachmentService,
+  ) {}
+
+  @Get()
+  @ApiOkResponse({ type: [RoomSummaryDto] })
+  list(@CurrentUserId() userId: string): RoomSummaryDto[] {
+    return this.chatService.getAccessibleRooms(userId);
+  }
+
+  @Post()
+  @ApiCreatedResponse({ type: RoomSummaryDto })
+  create(
+    @Body() body: CreateRoomDto,
+    @CurrentUserId() userId: string,
+  ): RoomSummaryDto {
+    const { roomName, isPrivate = false, password } = body;
+
+    if (this.chatService.isReservedRoomId(roomName)) {
+      throw new BadRequestException('Invalid room name');
+    }
+    if (!this.chatService.createRoom(roomName, userId, isPrivate, password)) {
+      throw new ConflictException('Room already exists');
+    }
+    if (isPrivate) {
+      this.chatService.addUserToPrivateRoom(roomName, userId);
+    }
+
+    this.chatGateway.notifyRoomCreated(roomName, isPrivate, userId);
+    return { roomId: roomName, isPrivate, creatorId: userId };
+  }
+
+  @Get(':roomId')
+  @ApiOkResponse({ type: RoomDetailsDto })
+  get(
+    @Param('roomId') roomId: string,
+    @CurrentUserId() userId: string,
+  ): RoomDetailsDto {
+    this.assertAccess(roomId, userId);
+    return this.chatService.getRoomDetails(roomId)!;
+  }
+
+  @Delete(':roomId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiNoContentResponse()
+  remove(@Param('roomId') roomId: string, @CurrentUserId() userId: string) {
+    this.assertExists(roomId);
+    if (!this.chatService.isRoomCreator(roomId, userId)) {
+      throw new ForbiddenException('Apenas o criador pode deletar a sala');
+    }
+
+    this.chatService.removeRoom(roomId);
+    this.chatGateway.notifyRoomRemoved(roomId);
+  }
+
+  @Post(':roomId/join')
+  @HttpCode(HttpStatus.OK)
+  @ApiOkResponse({ type: RoomSummaryDto })
+  join(
+    @Param('roomId') roomId: string,
+    @Body() body: JoinRoomDto,
+    @CurrentUserId() userId: string,
+  ): RoomSummaryDto {
+    const room = this.assertExists(roomId);
+
+    if (this.chatService.isBanned(roomId, userId)) {
+      throw new ForbiddenException('Banned from this room');
+    }
+    if (room.isPrivate && !this.chatService.canAccessRoom(roomId, userId)) {
+      if (
+        !body.password ||
+        !this.chatService.verifyRoomPassword(roomId, body.password)
+      ) {
+        throw new ForbiddenException('Unauthorized');
+      }
+      this.chatService.addUserToPrivateRoom(roomId, userId);
+    }
+
+    return { roomId, isPrivate: room.isPrivate, creatorId: room.creatorId };
+  }
+
+  @Get(':roomId/members')
+  @ApiOkResponse({ type: RoomMembersDto })
+  members(
+    @Param('roomId') roomId: string,
+    @CurrentUserId() userId: string,
+  ): RoomMembersDto {
+    this.assertAccess(roomId, userId);
+    return this.chatService.getRoomMembers(roomId)!;
+  }
+
+  @Get(':roomId/messages')
+  @ApiOkResponse({ type: MessagePageDto })
+  getMessages(
+    @Param('roomId') roomId: string,
+    @Query() query: GetMessagesQueryDto,
+    @CurrentUserId() userId: string,
+  ): MessagePageDto {
+    this.assertAccess(roomId, userId);
+
+    const { before, after, limit } = query;
+    return {
+      roomId,
+      ...this.chatService.getMessages(roomId, { before, after, limit }),
+    };
+  }
+
+  @Post(':roomId/messages')
+  @ApiCreatedResponse({ type: MessageDto })
+  sendMessage(
+    @Param('roomId') roomId: string,
+    @Body() body: SendMessageDto,
+    @CurrentUserId() userId: string,
+  ): MessageDto {
+    this.assertAccess(roomId, userId);
+    this.chatService.assertCanPost(roomId, userId);
+
+    const attachments = this.attachmentService.resolveRefs(
+      roomId,
+      userId,
+      body.attachmentIds,
+    );
+    if (!body.message && attachments.length === 0) {
+      throw new BadRequestException('Empty message');
+    }
+
+    const message = {
+      userId,
+      userName: this.chatService.getUserName(userId),
+      message: body.message,
+      timestamp: new Date(),
+      attachments: attachments.length > 0 ? attachments : undefined,
+    };
+
+    if (body.parentId) {
+      const { reply, parent } = this.chatService.addReply(
+        roomId,
+        body.parentId,
+        message,
+      );
+      this.chatGateway.notifyThreadReply(roomId, reply, parent);
+      return reply;
+    }
+
+    const stored = this.chatService.addMessage(roomId, message)!;
+    this.chatGateway.notifyNewMessage(roomId, stored);
+    return stored;
+  }
+
+  @Get(':roomId/messages/:messageId/replies')
+  @ApiOkResponse({ type: MessagePageDto })
+  getReplies(
+    @Param('roomId') roomId: string,
+    @Param('messageId') messageId: string,
+    @Query() query: GetMessagesQueryDto,
+    @CurrentUserId() userId: string,
+  ): MessagePageDto {
+    this.assertAccess(roomId, userId);
+
+    const { before, after, limit } = query;
+    return {
+      roomId,
+      ...this.chatService.getMessages(roomId, {
+        before,
+        after,
+        limit,
+        parentId: messageId,
+      }),
+    };
+  }
+
+  @Post(':roomId/invites')
+  createInvite(
+    @Param('roomId') roomId: string,
+    @Body() body: CreateInviteDto,
+    @CurrentUserId() userId: string,
+  ) {
+    return this.inviteService.createInvite(roomId, userId, body);
+  }
+
+  private assertExists(roomId: string) {
+    const room = this.chatService.getRoom(roomId);
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+    return room;
+  }
+
+  private assertAccess(roomId: string, userId: string) {
+    const room = this.assertExists(roomId);
+    if (!this.chatService.canAccessRoom(roomId, userId)) {
+      throw new ForbiddenException('Unauthorized');
+    }
+    return room;
+  }
+}
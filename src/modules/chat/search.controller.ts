@@ -0,0 +1,35 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOkResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentUserId, HttpAuthGuard } from '../auth/http-auth.guard';
+import { ChatService } from './chat.service';
+import {
+  SearchMessagesQueryDto,
+  SearchResultsDto,
+} from './dto/search-messages.dto';
+
+@ApiTags('search')
+@ApiBearerAuth()
+@UseGuards(HttpAuthGuard)
+@Controller('search')
+export class SearchController {
+  constructor(private readonly chatService: ChatService) {}
+
+  @Get()
+  @ApiOkResponse({ type: SearchResultsDto })
+  search(
+    @Query() query: SearchMessagesQueryDto,
+    @CurrentUserId() userId: string,
+  ): SearchResultsDto {
+    return {
+      query: query.q,
+      results: this.chatService.searchMessages(userId, {
+        query: query.q,
+        roomId: query.roomId,
+        authorId: query.userId,
+        from: query.from,
+        to: query.to,
+        limit: query.limit,
+      }),
+    };
+  }
+}
@@ -1,9 +1,9 @@
 import { Module } from '@nestjs/common';
-import { HealthController } from './health.controller';
-import { HealthService } from './health.service';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
 
-@Module({
-  controllers: [HealthController],
-  providers: [HealthService]
+@Module({
+  controllers: [HealthController],
+  providers: [HealthService],
 })
 export class HealthModule {}
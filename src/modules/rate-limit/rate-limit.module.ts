@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { RateLimitService } from './rate-limit.service';
+import { WsRateLimitGuard } from './ws-rate-limit.guard';
+
+@Module({
+  providers: [RateLimitService, WsRateLimitGuard],
+  exports: [RateLimitService, WsRateLimitGuard],
+})
+export class RateLimitModule {}
@@ -0,0 +1,77 @@
+import { ConfigService } from '@nestjs/config';
+import type { Socket } from 'socket.io';
+import { RateLimitService } from './rate-limit.service';
+
+describe('RateLimitService', () => {
+  let service: RateLimitService;
+  let client: Socket;
+  let onDisconnect: () => void;
+
+  beforeEach(() => {
+    service = new RateLimitService(
+      new ConfigService({
+        rateLimit: {
+          enabled: true,
+          default: { capacity: 2, refillPerSecond: 1 },
+          events: { typing: { capacity: 1, refillPerSecond: 0.5 } },
+          violationWindowMs: 10_000,
+          maxViolations: 3,
+        },
+      }),
+    );
+    client = {
+      id: 'socket-1',
+      once: jest.fn((_event: string, listener: () => void) => {
+        onDisconnect = listener;
+      }),
+    } as unknown as Socket;
+  });
+
+  describe('consume', () => {
+    it('allows a burst up to the bucket capacity', () => {
+      expect(service.consume(client, 'send_message', 0)).toBe(0);
+      expect(service.consume(client, 'send_message', 0)).toBe(0);
+      expect(service.consume(client, 'send_message', 0)).toBe(1000);
+    });
+
+    it('refills tokens over time without exceeding the capacity', () => {
+      service.consume(client, 'send_message', 0);
+      service.consume(client, 'send_message', 0);
+
+      expect(service.consume(client, 'send_message', 500)).toBe(500);
+      expect(service.consume(client, 'send_message', 1000)).toBe(0);
+
+      expect(service.consume(client, 'send_message', 60_000)).toBe(0);
+      expect(service.consume(client, 'send_message', 60_000)).toBe(0);
+      expect(service.consume(client, 'send_message', 60_000)).toBe(1000);
+    });
+
+    it('keeps one bucket per event, using its own rule', () => {
+      expect(service.consume(client, 'typing', 0)).toBe(0);
+      expect(service.consume(client, 'typing', 0)).toBe(2000);
+      expect(service.consume(client, 'send_message', 0)).toBe(0);
+    });
+
+    it('drops the socket state on disconnect', () => {
+      service.consume(client, 'typing', 0);
+      onDisconnect();
+
+      expect(service.consume(client, 'typing', 0)).toBe(0);
+    });
+  });
+
+  describe('recordViolation', () => {
+    it('flags the socket once it reaches the limit within the window', () => {
+      expect(service.recordViolation(client, 0)).toBe(false);
+      expect(service.recordViolation(client, 1000)).toBe(false);
+      expect(service.recordViolation(client, 2000)).toBe(true);
+    });
+
+    it('forgets violations older than the window', () => {
+      service.recordViolation(client, 0);
+      service.recordViolation(client, 1000);
+
+      expect(service.recordViolation(client, 10_500)).toBe(false);
+    });
+  });
+});
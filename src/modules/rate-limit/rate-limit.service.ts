@@ -0,0 +1,97 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Socket } from 'socket.io';
+
+export interface RateLimitRule {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface SocketLimits {
+  buckets: Map<string, Bucket>;
+  /** Momentos das últimas violações, para detectar reincidência. */
+  violations: number[];
+}
+
+/**
+ * Token buckets por socket e por evento. O estado de cada socket é
+ * descartado quando ele desconecta.
+ */
+@Injectable()
+export class RateLimitService {
+  private sockets = new Map<string, SocketLimits>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  get enabled() {
+    return this.configService.get<boolean>('rateLimit.enabled', true);
+  }
+
+  getRule(event: string): RateLimitRule {
+    const events =
+      this.configService.get<Record<string, RateLimitRule>>(
+        'rateLimit.events',
+      ) ?? {};
+
+    return (
+      events[event] ??
+      this.configService.getOrThrow<RateLimitRule>('rateLimit.default')
+    );
+  }
+
+  /** Consome um token; retorna 0 se liberado ou quantos ms faltam para o próximo. */
+  consume(client: Socket, event: string, now = Date.now()) {
+    const { capacity, refillPerSecond } = this.getRule(event);
+    const limits = this.getLimits(client);
+
+    const bucket = limits.buckets.get(event) ?? {
+      tokens: capacity,
+      updatedAt: now,
+    };
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond,
+    );
+    bucket.updatedAt = now;
+    limits.buckets.set(event, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+
+    return Math.ceil(((1 - bucket.tokens) / refillPerSecond) * 1000);
+  }
+
+  /** Registra uma violação; retorna true se o socket passou do limite tolerado. */
+  recordViolation(client: Socket, now = Date.now()) {
+    const windowMs = this.configService.getOrThrow<number>(
+      'rateLimit.violationWindowMs',
+    );
+    const limits = this.getLimits(client);
+
+    limits.violations = limits.violations.filter((t) => now - t < windowMs);
+    limits.violations.push(now);
+
+    return (
+      limits.violations.length >=
+      this.configService.getOrThrow<number>('rateLimit.maxViolations')
+    );
+  }
+
+  private getLimits(client: Socket) {
+    let limits = this.sockets.get(client.id);
+    if (!limits) {
+      limits = { buckets: new Map(), violations: [] };
+      this.sockets.set(client.id, limits);
+      client.once('disconnect', () => this.sockets.delete(client.id));
+    }
+
+    return limits;
+  }
+}
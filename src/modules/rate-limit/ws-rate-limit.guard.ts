@@ -0,0 +1,50 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+import type { Socket } from 'socket.io';
+import { getSocketUserId } from '../auth/socket-auth';
+import { RateLimitService } from './rate-limit.service';
+
+/**
+ * Aplica o limite do evento recebido. Excessos viram um `exception` com
+ * `code: 'rate_limited'` e `retryAfterMs`; reincidentes são desconectados.
+ */
+@Injectable()
+export class WsRateLimitGuard implements CanActivate {
+  private readonly logger = new Logger(WsRateLimitGuard.name);
+
+  constructor(private readonly rateLimitService: RateLimitService) {}
+
+  canActivate(context: ExecutionContext) {
+    if (!this.rateLimitService.enabled) return true;
+
+    const ws = context.switchToWs();
+    const client = ws.getClient<Socket>();
+    const event = ws.getPattern();
+
+    const retryAfterMs = this.rateLimitService.consume(client, event);
+    if (retryAfterMs === 0) return true;
+
+    const error = {
+      status: 'error',
+      code: 'rate_limited',
+      event,
+      retryAfterMs,
+      message: 'Too many requests',
+    };
+
+    if (this.rateLimitService.recordViolation(client)) {
+      this.logger.warn(
+        `Desconectando ${client.id} (usuário ${getSocketUserId(client)}) por excesso de requisições`,
+      );
+      client.emit('exception', { ...error, disconnected: true });
+      client.disconnect(true);
+    }
+
+    throw new WsException(error);
+  }
+}
@@ -1,44 +1,86 @@
 export class JoinVoiceChannelDto {
-    roomId: string;
+  roomId: string;
 }
 
 export class LeaveVoiceChannelDto {
-    roomId: string;
+  roomId: string;
 }
 
 export class ToggleMuteDto {
-    roomId: string;
-    isMuted: boolean;
+  roomId: string;
+  isMuted: boolean;
 }
 
 export class GetRouterRtpCapabilitiesDto {
-    roomId: string;
+  roomId: string;
 }
 
 export class CreateWebRtcTransportDto {
-    roomId: string;
+  roomId: string;
 }
 
 export class ConnectWebRtcTransportDto {
-    roomId: string;
-    transportId: string;
-    dtlsParameters: any;
+  roomId: string;
+  transportId: string;
+  dtlsParameters: any;
+}
+
+export class RestartIceDto {
+  roomId: string;
+  transportId: string;
 }
 
 export class ProduceDto {
-    roomId: string;
-    transportId: string;
-    kind: 'audio' | 'video';
-    rtpParameters: any;
+  roomId: string;
+  transportId: string;
+  kind: 'audio' | 'video';
+  rtpParameters: any;
+  source?: 'mic' | 'camera' | 'screen';
+}
+
+export class CloseProducerDto {
+  roomId: string;
+  producerId: string;
 }
 
 export class ConsumeDto {
-    roomId: string;
-    producerId: string;
-    rtpCapabilities: any;
+  roomId: string;
+  producerId: string;
+  rtpCapabilities: any;
 }
 
 export class ResumeConsumerDto {
-    roomId: string;
-    consumerId: string;
+  roomId: string;
+  consumerId: string;
+}
+
+export class SetConsumerLayersDto {
+  roomId: string;
+  consumerId: string;
+  spatialLayer: number;
+  temporalLayer?: number;
+}
+
+export class RecordingDto {
+  roomId: string;
+}
+
+export class GetVoiceStatsDto {
+  roomId: string;
+}
+
+export class ForceMuteDto {
+  roomId: string;
+  userId: string;
+  isMuted: boolean;
+}
+
+export class VoiceKickDto {
+  roomId: string;
+  userId: string;
+}
+
+export class VoiceLockDto {
+  roomId: string;
+  locked: boolean;
 }
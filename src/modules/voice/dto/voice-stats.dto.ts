@@ -0,0 +1,113 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import type { QualityLevel } from '../voice-stats';
+
+export class TransportStatsDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: ['send', 'recv'] })
+  direction: 'send' | 'recv';
+
+  @ApiProperty()
+  iceState: string;
+
+  @ApiProperty()
+  dtlsState: string;
+
+  @ApiProperty({ description: 'bps' })
+  sendBitrate: number;
+
+  @ApiProperty({ description: 'bps' })
+  recvBitrate: number;
+
+  @ApiPropertyOptional({
+    description: 'Estimativa de banda até o cliente, em bps',
+  })
+  availableOutgoingBitrate?: number;
+}
+
+export class StreamStatsDto {
+  @ApiProperty({ description: 'Id do producer ou consumer' })
+  id: string;
+
+  @ApiProperty({ enum: ['audio', 'video'] })
+  kind: 'audio' | 'video';
+
+  @ApiPropertyOptional({ enum: ['mic', 'camera', 'screen'] })
+  source?: string;
+
+  @ApiProperty({ description: 'bps' })
+  bitrate: number;
+
+  @ApiProperty()
+  packetsLost: number;
+
+  @ApiProperty()
+  lossPercent: number;
+
+  @ApiProperty()
+  jitterMs: number;
+
+  @ApiPropertyOptional()
+  rttMs?: number;
+
+  @ApiProperty({ minimum: 0, maximum: 10 })
+  score: number;
+}
+
+export class ConnectionQualityDto {
+  @ApiProperty({ enum: ['good', 'fair', 'poor'] })
+  level: QualityLevel;
+
+  @ApiProperty({ minimum: 0, maximum: 10 })
+  score: number;
+
+  @ApiProperty()
+  lossPercent: number;
+
+  @ApiProperty()
+  jitterMs: number;
+
+  @ApiPropertyOptional()
+  rttMs?: number;
+}
+
+export class VoiceUserStatsDto {
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty()
+  userName: string;
+
+  @ApiProperty()
+  collectedAt: Date;
+
+  @ApiProperty({ type: [TransportStatsDto] })
+  transports: TransportStatsDto[];
+
+  @ApiProperty({ type: [StreamStatsDto], description: 'O que o usuário envia' })
+  producers: StreamStatsDto[];
+
+  @ApiProperty({
+    type: [StreamStatsDto],
+    description: 'O que o usuário recebe',
+  })
+  consumers: StreamStatsDto[];
+
+  @ApiProperty({ type: ConnectionQualityDto })
+  quality: ConnectionQualityDto;
+}
+
+export class VoiceRoomStatsDto {
+  @ApiProperty()
+  roomId: string;
+
+  @ApiProperty({ description: 'Intervalo entre coletas' })
+  intervalMs: number;
+
+  @ApiProperty({
+    type: [VoiceUserStatsDto],
+    description: 'Usuários sem coleta ainda ficam de fora',
+  })
+  users: VoiceUserStatsDto[];
+}
@@ -0,0 +1,162 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { OggOpusWriter } from './ogg-opus-writer';
+
+interface OggPage {
+  headerType: number;
+  granule: bigint;
+  serial: number;
+  sequence: number;
+  crc: number;
+  segments: number[];
+  body: Buffer;
+  raw: Buffer;
+}
+
+function parsePages(file: Buffer) {
+  const pages: OggPage[] = [];
+  let offset = 0;
+  while (offset < file.length) {
+    expect(file.toString('ascii', offset, offset + 4)).toBe('OggS');
+    const count = file.readUInt8(offset + 26);
+    const segments = [...file.subarray(offset + 27, offset + 27 + count)];
+    const size = segments.reduce((sum, s) => sum + s, 0);
+    const end = offset + 27 + count + size;
+
+    pages.push({
+      headerType: file.readUInt8(offset + 5),
+      granule: file.readBigUInt64LE(offset + 6),
+      serial: file.readUInt32LE(offset + 14),
+      sequence: file.readUInt32LE(offset + 18),
+      crc: file.readUInt32LE(offset + 22),
+      segments,
+      body: file.subarray(offset + 27 + count, end),
+      raw: file.subarray(offset, end),
+    });
+    offset = end;
+  }
+  return pages;
+}
+
+/** CRC-32 do Ogg bit a bit: polinômio 0x04c11db7, sem reflexão, início 0. */
+function referenceCrc(page: Buffer) {
+  const data = Buffer.from(page);
+  data.writeUInt32LE(0, 22);
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+  }
+  return crc >>> 0;
+}
+
+// TOC 0x08: SILK 20 ms, um frame = 960 amostras
+function rtp(sequenceNumber: number, timestamp: number, payloadSize = 10) {
+  const header = Buffer.alloc(12);
+  header.writeUInt8(0x80, 0);
+  header.writeUInt8(111, 1);
+  header.writeUInt16BE(sequenceNumber, 2);
+  header.writeUInt32BE(timestamp, 4);
+  header.writeUInt32BE(1234, 8);
+  const payload = Buffer.alloc(payloadSize, 0xaa);
+  payload.writeUInt8(0x08, 0);
+  return Buffer.concat([header, payload]);
+}
+
+describe('OggOpusWriter', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ogg-opus-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function record(packets: Buffer[], channels = 2) {
+    const writer = new OggOpusWriter(join(dir, 'track.ogg'), channels);
+    packets.forEach((packet) => writer.writeRtp(packet));
+    await writer.close();
+    return {
+      writer,
+      pages: parsePages(readFileSync(join(dir, 'track.ogg'))),
+    };
+  }
+
+  it('starts with the OpusHead and OpusTags pages', async () => {
+    const { pages } = await record([], 1);
+
+    expect(pages).toHaveLength(2);
+    const [head, tags] = pages;
+
+    expect(head.headerType).toBe(0x02);
+    expect(head.granule).toBe(0n);
+    expect(head.sequence).toBe(0);
+    expect(head.body.toString('ascii', 0, 8)).toBe('OpusHead');
+    expect(head.body.readUInt8(9)).toBe(1);
+    expect(head.body.readUInt32LE(12)).toBe(48000);
+
+    expect(tags.headerType).toBe(0);
+    expect(tags.sequence).toBe(1);
+    expect(tags.serial).toBe(head.serial);
+    expect(tags.body.toString('ascii', 0, 8)).toBe('OpusTags');
+  });
+
+  it('writes a valid CRC on every page', async () => {
+    const { pages } = await record([rtp(1, 5000), rtp(2, 5960, 300)]);
+
+    expect(pages).toHaveLength(4);
+    for (const page of pages) {
+      expect(page.crc).toBe(referenceCrc(page.raw));
+    }
+  });
+
+  it('splits packets into 255-byte lacing segments', async () => {
+    const { pages } = await record([rtp(1, 0, 300), rtp(2, 960, 255)]);
+
+    expect(pages[2].segments).toEqual([255, 45]);
+    expect(pages[2].body).toHaveLength(300);
+    expect(pages[3].segments).toEqual([255, 0]);
+  });
+
+  it('sets the granule from the RTP timestamp and flags the last page', async () => {
+    const { pages, writer } = await record([
+      rtp(1, 1000),
+      rtp(2, 1960),
+      // DTX: 4 frames sem pacote
+      rtp(3, 1000 + 960 * 5),
+    ]);
+
+    const audio = pages.slice(2);
+    expect(audio.map((p) => p.granule)).toEqual([960n, 1920n, 5760n]);
+    expect(audio.map((p) => p.sequence)).toEqual([2, 3, 4]);
+    expect(audio.map((p) => p.headerType)).toEqual([0, 0, 0x04]);
+    expect(writer.durationMs).toBe(120);
+  });
+
+  it('drops late packets and RTCP', async () => {
+    const rtcp = Buffer.alloc(12);
+    rtcp.writeUInt8(0x80, 0);
+    rtcp.writeUInt8(200, 1);
+
+    const { pages } = await record([
+      rtp(10, 0),
+      rtp(12, 1920),
+      rtp(11, 960),
+      rtcp,
+      rtp(12, 1920),
+    ]);
+
+    expect(pages.slice(2).map((p) => p.granule)).toEqual([960n, 2880n]);
+  });
+
+  it('handles sequence number wrap-around', async () => {
+    const { pages } = await record([rtp(0xffff, 0), rtp(0, 960)]);
+
+    expect(pages.slice(2).map((p) => p.granule)).toEqual([960n, 1920n]);
+  });
+});
@@ -0,0 +1,166 @@
+import { createWriteStream, WriteStream } from 'fs';
+
+const OPUS_SAMPLE_RATE = 48000;
+// Sem amostras de preparo a descartar: a gravação começa no meio do stream
+const PRE_SKIP = 0;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+function oggCrc(page: Buffer) {
+  let crc = 0;
+  for (const byte of page) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+/** Duração em amostras (48 kHz) de um pacote Opus, pelo byte TOC (RFC 6716). */
+function opusPacketSamples(packet: Buffer) {
+  if (packet.length === 0) return 0;
+
+  const config = packet[0] >> 3;
+  let frameMs: number;
+  if (config < 12) frameMs = [10, 20, 40, 60][config % 4];
+  else if (config < 16) frameMs = [10, 20][config % 2];
+  else frameMs = [2.5, 5, 10, 20][config % 4];
+
+  const code = packet[0] & 0x03;
+  const frames = code === 0 ? 1 : code === 3 ? (packet[1] ?? 0) & 0x3f : 2;
+
+  return frames * frameMs * (OPUS_SAMPLE_RATE / 1000);
+}
+
+/** Payload de um pacote RTP, ou undefined se for RTCP (rtcp-mux). */
+function rtpPayload(packet: Buffer) {
+  if (packet.length < 12 || packet[0] >> 6 !== 2) return undefined;
+  if (packet[1] >= 192 && packet[1] <= 223) return undefined;
+
+  let offset = 12 + (packet[0] & 0x0f) * 4;
+  if (packet[0] & 0x10) {
+    if (packet.length < offset + 4) return undefined;
+    offset += 4 + packet.readUInt16BE(offset + 2) * 4;
+  }
+
+  const padding = packet[0] & 0x20 ? packet[packet.length - 1] : 0;
+  if (offset >= packet.length - padding) return undefined;
+
+  return {
+    sequenceNumber: packet.readUInt16BE(2),
+    timestamp: packet.readUInt32BE(4),
+    payload: packet.subarray(offset, packet.length - padding),
+  };
+}
+
+/**
+ * Grava um stream RTP Opus em um arquivo Ogg/Opus (RFC 7845), um pacote por
+ * página. A posição de cada página segue o timestamp RTP, então silêncios
+ * (DTX) e perdas mantêm a linha do tempo original.
+ */
+export class OggOpusWriter {
+  private readonly stream: WriteStream;
+  private readonly serial = Math.floor(Math.random() * 0xffffffff);
+  private pageSequence = 0;
+  private firstTimestamp?: number;
+  private lastSequence?: number;
+  private lastGranule = 0;
+  /** Último pacote fica retido para sair com a flag de fim de stream. */
+  private pending?: { payload: Buffer; granule: number };
+
+  constructor(
+    readonly filePath: string,
+    channels = 2,
+  ) {
+    this.stream = createWriteStream(filePath);
+
+    const head = Buffer.alloc(19);
+    head.write('OpusHead', 0, 'ascii');
+    head.writeUInt8(1, 8);
+    head.writeUInt8(channels, 9);
+    head.writeUInt16LE(PRE_SKIP, 10);
+    head.writeUInt32LE(OPUS_SAMPLE_RATE, 12);
+    head.writeInt16LE(0, 16);
+    head.writeUInt8(0, 18);
+    this.writePage(head, 0, 0x02);
+
+    const vendor = Buffer.from('group-chat', 'utf8');
+    const tags = Buffer.alloc(8 + 4 + vendor.length + 4);
+    tags.write('OpusTags', 0, 'ascii');
+    tags.writeUInt32LE(vendor.length, 8);
+    vendor.copy(tags, 12);
+    tags.writeUInt32LE(0, 12 + vendor.length);
+    this.writePage(tags, 0, 0);
+  }
+
+  writeRtp(packet: Buffer) {
+    const rtp = rtpPayload(packet);
+    if (!rtp) return;
+
+    // Pacotes atrasados chegam depois de outros mais novos: descartados
+    if (
+      this.lastSequence !== undefined &&
+      ((rtp.sequenceNumber - this.lastSequence) & 0xffff) >= 0x8000
+    ) {
+      return;
+    }
+    this.lastSequence = rtp.sequenceNumber;
+
+    this.firstTimestamp ??= rtp.timestamp;
+    const offset = (rtp.timestamp - this.firstTimestamp) >>> 0;
+    const granule = offset + opusPacketSamples(rtp.payload);
+    if (granule <= this.lastGranule) return;
+    this.lastGranule = granule;
+
+    if (this.pending) {
+      this.writePage(this.pending.payload, this.pending.granule, 0);
+    }
+    this.pending = { payload: Buffer.from(rtp.payload), granule };
+  }
+
+  /** Duração gravada até agora, em ms. */
+  get durationMs() {
+    return this.lastGranule / (OPUS_SAMPLE_RATE / 1000);
+  }
+
+  close() {
+    if (this.pending) {
+      this.writePage(this.pending.payload, this.pending.granule, 0x04);
+      this.pending = undefined;
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      this.stream.once('error', reject);
+      this.stream.end(resolve);
+    });
+  }
+
+  private writePage(packet: Buffer, granule: number, headerType: number) {
+    const segments = Math.floor(packet.length / 255) + 1;
+    const header = Buffer.alloc(27 + segments);
+
+    header.write('OggS', 0, 'ascii');
+    header.writeUInt8(0, 4);
+    header.writeUInt8(headerType, 5);
+    header.writeBigUInt64LE(BigInt(granule), 6);
+    header.writeUInt32LE(this.serial, 14);
+    header.writeUInt32LE(this.pageSequence++, 18);
+    header.writeUInt32LE(0, 22);
+    header.writeUInt8(segments, 26);
+    for (let i = 0; i < segments; i++) {
+      header.writeUInt8(i < segments - 1 ? 255 : packet.length % 255, 27 + i);
+    }
+
+    const page = Buffer.concat([header, packet]);
+    page.writeUInt32LE(oggCrc(page), 22);
+    this.stream.write(page);
+  }
+}
@@ -0,0 +1,68 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter } from 'events';
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { RecordingService } from './recording.service';
+import { VoiceService } from './voice.service';
+
+describe('RecordingService', () => {
+  let root: string;
+  let recordings: string;
+  let service: RecordingService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'recording-spec-'));
+    recordings = join(root, 'recordings');
+
+    const voiceService = {
+      onProducer: jest.fn(),
+      onAudioLevels: jest.fn(),
+      getRouter: () => ({ observer: new EventEmitter() }),
+      getVoiceUsers: () => [{ userId: 'alice' }],
+      getProducers: () => [],
+    } as unknown as VoiceService;
+
+    service = new RecordingService(
+      voiceService,
+      new ConfigService({ voice: { recording: { dir: recordings } } }),
+    );
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it.each(['..', '.'])(
+    'keeps the recording of room "%s" inside the recordings dir',
+    async (roomId) => {
+      const { recordingId } = await service.startRecording(roomId, 'alice');
+      const status = await service.stopRecording(roomId);
+
+      const manifest = join(
+        recordings,
+        roomId.replace(/\./g, '%2E'),
+        recordingId,
+        'manifest.json',
+      );
+      expect(status?.manifest).toBe(manifest);
+      expect(existsSync(manifest)).toBe(true);
+      expect(readdirSync(root)).toEqual(['recordings']);
+    },
+  );
+
+  it('stores other rooms under their encoded name', async () => {
+    await service.startRecording('sala/1', 'alice');
+    const status = await service.stopRecording('sala/1');
+
+    expect(dirname(dirname(status!.manifest!))).toBe(
+      join(recordings, 'sala%2F1'),
+    );
+  });
+});
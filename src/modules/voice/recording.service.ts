@@ -0,0 +1,322 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { createSocket, Socket } from 'dgram';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { Consumer } from 'node_modules/mediasoup/node/lib/ConsumerTypes';
+import { PlainTransport } from 'node_modules/mediasoup/node/lib/PlainTransportTypes';
+import { OggOpusWriter } from './ogg-opus-writer';
+import { VoiceProducerInfo, VoiceService } from './voice.service';
+
+interface SpeakingSegment {
+  startMs: number;
+  endMs?: number;
+}
+
+interface RecordingTrack {
+  userId: string;
+  userName: string;
+  producerId: string;
+  file: string;
+  /** Ms desde o início da gravação. */
+  startMs: number;
+  endMs?: number;
+  speaking: SpeakingSegment[];
+  transport: PlainTransport;
+  consumer: Consumer;
+  socket: Socket;
+  writer: OggOpusWriter;
+}
+
+interface Recording {
+  id: string;
+  roomId: string;
+  dir: string;
+  startedBy: string;
+  startedAt: Date;
+  tracks: RecordingTrack[];
+  /** Encerra a gravação quando o Router fecha (sala vazia ou worker morto). */
+  detachRouter: () => void;
+}
+
+export interface RecordingStatus {
+  roomId: string;
+  recording: boolean;
+  recordingId: string;
+  startedBy: string;
+  startedAt: Date;
+  stoppedAt?: Date;
+  manifest?: string;
+}
+
+/**
+ * Pasta da sala dentro de `voice.recording.dir`. `encodeURIComponent` não
+ * escapa pontos: uma sala chamada `.` ou `..` sairia da pasta de gravações.
+ */
+function roomDirName(roomId: string) {
+  const name = encodeURIComponent(roomId);
+  return /^\.+$/.test(name) ? name.replace(/\./g, '%2E') : name;
+}
+
+/**
+ * Grava os microfones de uma sala de voz: cada producer de áudio é
+ * consumido por um PlainTransport que envia o RTP para um socket UDP local,
+ * e vira um arquivo Ogg/Opus por participante. Ao parar, um manifest JSON
+ * registra os arquivos e quando cada um falou.
+ */
+@Injectable()
+export class RecordingService implements OnModuleDestroy {
+  private readonly logger = new Logger(RecordingService.name);
+  private recordings = new Map<string, Recording>();
+  private stoppedListeners: ((status: RecordingStatus) => void)[] = [];
+
+  constructor(
+    private readonly voiceService: VoiceService,
+    private readonly configService: ConfigService,
+  ) {
+    this.voiceService.onProducer((roomId, producer) => {
+      const recording = this.recordings.get(roomId);
+      if (recording && producer.kind === 'audio') {
+        void this.addTrack(recording, producer);
+      }
+    });
+
+    this.voiceService.onAudioLevels((roomId, levels) => {
+      const recording = this.recordings.get(roomId);
+      if (!recording) return;
+
+      const now = this.elapsed(recording);
+      for (const track of recording.tracks) {
+        if (track.endMs !== undefined) continue;
+
+        const speaking = levels.some((l) => l.producerId === track.producerId);
+        const open = track.speaking.at(-1);
+        if (speaking && (!open || open.endMs !== undefined)) {
+          track.speaking.push({ startMs: now });
+        } else if (!speaking && open && open.endMs === undefined) {
+          open.endMs = now;
+        }
+      }
+    });
+  }
+
+  async onModuleDestroy() {
+    for (const roomId of [...this.recordings.keys()]) {
+      await this.stopRecording(roomId);
+    }
+  }
+
+  /** Gravações encerradas sem `stopRecording` explícito (ex.: sala esvaziou). */
+  onRecordingStopped(listener: (status: RecordingStatus) => void) {
+    this.stoppedListeners.push(listener);
+  }
+
+  getStatus(roomId: string): RecordingStatus | null {
+    const recording = this.recordings.get(roomId);
+    return recording ? this.toStatus(recording) : null;
+  }
+
+  async startRecording(
+    roomId: string,
+    userId: string,
+  ): Promise<RecordingStatus> {
+    const router = this.voiceService.getRouter(roomId);
+    if (!router) {
+      throw new Error('Voice room not found');
+    }
+
+    if (
+      !this.voiceService.getVoiceUsers(roomId).some((u) => u.userId === userId)
+    ) {
+      throw new Error('User not found in voice room');
+    }
+
+    if (this.recordings.has(roomId)) {
+      throw new Error('Room is already being recorded');
+    }
+
+    const id = randomUUID();
+    const dir = resolve(
+      this.configService.get<string>('voice.recording.dir', 'data/recordings'),
+      roomDirName(roomId),
+      id,
+    );
+    mkdirSync(dir, { recursive: true });
+
+    const onRouterClose = () => {
+      void this.stopRecording(roomId).then((status) => {
+        if (status)
+          this.stoppedListeners.forEach((listener) => listener(status));
+      });
+    };
+    router.observer.once('close', onRouterClose);
+
+    const recording: Recording = {
+      id,
+      roomId,
+      dir,
+      startedBy: userId,
+      startedAt: new Date(),
+      tracks: [],
+      detachRouter: () => router.observer.off('close', onRouterClose),
+    };
+    this.recordings.set(roomId, recording);
+
+    for (const producer of this.voiceService.getProducers(roomId)) {
+      if (producer.kind === 'audio') {
+        await this.addTrack(recording, producer);
+      }
+    }
+
+    this.logger.log(
+      `⏺️ Gravação ${id} iniciada na sala ${roomId} por ${userId}`,
+    );
+
+    return this.toStatus(recording);
+  }
+
+  /** Retorna null se a sala não estava sendo gravada. */
+  async stopRecording(roomId: string): Promise<RecordingStatus | null> {
+    const recording = this.recordings.get(roomId);
+    if (!recording) {
+      return null;
+    }
+
+    this.recordings.delete(roomId);
+    recording.detachRouter();
+
+    for (const track of recording.tracks) {
+      await this.finishTrack(recording, track);
+    }
+
+    const stoppedAt = new Date();
+    const manifest = join(recording.dir, 'manifest.json');
+    writeFileSync(
+      manifest,
+      JSON.stringify(
+        {
+          recordingId: recording.id,
+          roomId,
+          startedBy: recording.startedBy,
+          startedAt: recording.startedAt,
+          stoppedAt,
+          durationMs: stoppedAt.getTime() - recording.startedAt.getTime(),
+          tracks: recording.tracks.map((track) => ({
+            userId: track.userId,
+            userName: track.userName,
+            producerId: track.producerId,
+            file: track.file,
+            format: 'audio/ogg; codecs=opus',
+            startMs: track.startMs,
+            endMs: track.endMs,
+            audioMs: Math.round(track.writer.durationMs),
+            speaking: track.speaking,
+          })),
+        },
+        null,
+        2,
+      ),
+    );
+
+    this.logger.log(`⏹️ Gravação ${recording.id} encerrada: ${manifest}`);
+
+    return {
+      ...this.toStatus(recording),
+      recording: false,
+      stoppedAt,
+      manifest,
+    };
+  }
+
+  private async addTrack(recording: Recording, producer: VoiceProducerInfo) {
+    const router = this.voiceService.getRouter(recording.roomId);
+    if (!router) return;
+
+    const socket = createSocket('udp4');
+    try {
+      await new Promise<void>((done, fail) => {
+        socket.once('error', fail);
+        socket.bind(0, '127.0.0.1', () => done());
+      });
+
+      const transport = await router.createPlainTransport({
+        listenInfo: { protocol: 'udp', ip: '127.0.0.1' },
+        rtcpMux: true,
+        comedia: false,
+      });
+      await transport.connect({ ip: '127.0.0.1', port: socket.address().port });
+
+      const consumer = await transport.consume({
+        producerId: producer.producerId,
+        rtpCapabilities: router.rtpCapabilities,
+        paused: true,
+      });
+
+      // userId vem do cliente: não pode sair de `recording.dir`
+      const file = `${encodeURIComponent(producer.userId)}-${recording.tracks.length + 1}.ogg`;
+      const writer = new OggOpusWriter(
+        join(recording.dir, file),
+        consumer.rtpParameters.codecs[0]?.channels ?? 2,
+      );
+      socket.on('message', (packet) => writer.writeRtp(packet));
+
+      const track: RecordingTrack = {
+        userId: producer.userId,
+        userName: producer.userName,
+        producerId: producer.producerId,
+        file,
+        startMs: this.elapsed(recording),
+        speaking: [],
+        transport,
+        consumer,
+        socket,
+        writer,
+      };
+      recording.tracks.push(track);
+
+      // Quem sai da sala (ou desliga o microfone) encerra a própria faixa
+      consumer.observer.once('close', () => {
+        if (this.recordings.get(recording.roomId) === recording) {
+          void this.finishTrack(recording, track);
+        }
+      });
+
+      await consumer.resume();
+      this.logger.log(
+        `🎙️ Gravando ${producer.userId} na sala ${recording.roomId}`,
+      );
+    } catch (error) {
+      socket.close();
+      this.logger.error(
+        `Erro ao gravar ${producer.userId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async finishTrack(recording: Recording, track: RecordingTrack) {
+    if (track.endMs !== undefined) return;
+
+    track.endMs = this.elapsed(recording);
+    const open = track.speaking.at(-1);
+    if (open && open.endMs === undefined) open.endMs = track.endMs;
+
+    track.transport.close();
+    track.socket.close();
+    await track.writer.close();
+  }
+
+  private elapsed(recording: Recording) {
+    return Date.now() - recording.startedAt.getTime();
+  }
+
+  private toStatus(recording: Recording): RecordingStatus {
+    return {
+      roomId: recording.roomId,
+      recording: true,
+      recordingId: recording.id,
+      startedBy: recording.startedBy,
+      startedAt: recording.startedAt,
+    };
+  }
+}
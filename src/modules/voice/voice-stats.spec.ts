@@ -0,0 +1,110 @@
+import { rateConnection, StreamStats, toStreamStats } from './voice-stats';
+
+const thresholds = {
+  fair: { lossPercent: 2, jitterMs: 30, rttMs: 250 },
+  poor: { lossPercent: 8, jitterMs: 80, rttMs: 500 },
+};
+
+const stream = (stats: Partial<StreamStats> = {}): StreamStats => ({
+  id: 'p1',
+  kind: 'audio',
+  bitrate: 32000,
+  packetsLost: 0,
+  lossPercent: 0,
+  jitterMs: 5,
+  rttMs: 40,
+  score: 10,
+  ...stats,
+});
+
+describe('rateConnection', () => {
+  it('rates a user without streams as good', () => {
+    expect(rateConnection([], thresholds)).toEqual({
+      level: 'good',
+      score: 10,
+      lossPercent: 0,
+      jitterMs: 0,
+      rttMs: undefined,
+    });
+  });
+
+  it.each([
+    ['good', {}],
+    ['fair', { lossPercent: 2 }],
+    ['fair', { jitterMs: 30 }],
+    ['fair', { rttMs: 250 }],
+    ['poor', { lossPercent: 8 }],
+    ['poor', { jitterMs: 80 }],
+    ['poor', { rttMs: 500 }],
+  ])('rates %s with %p', (level, stats) => {
+    expect(rateConnection([stream(stats)], thresholds).level).toBe(level);
+  });
+
+  it('uses the worst metric across all streams', () => {
+    const quality = rateConnection(
+      [
+        stream({ lossPercent: 3, score: 9 }),
+        stream({ id: 'c1', jitterMs: 90, rttMs: undefined, score: 6 }),
+      ],
+      thresholds,
+    );
+
+    expect(quality).toEqual({
+      level: 'poor',
+      score: 6,
+      lossPercent: 3,
+      jitterMs: 90,
+      rttMs: 40,
+    });
+  });
+});
+
+describe('toStreamStats', () => {
+  it('sums simulcast layers and keeps the worst of the rest', () => {
+    const stats = toStreamStats(
+      'p1',
+      'video',
+      'camera',
+      [
+        {
+          type: 'inbound-rtp',
+          bitrate: 100000,
+          packetsLost: 2,
+          fractionLost: 0,
+          jitter: 900,
+          roundTripTime: 30,
+          score: 9,
+        },
+        {
+          type: 'inbound-rtp',
+          bitrate: 300000,
+          packetsLost: 5,
+          fractionLost: 128,
+          jitter: 4500,
+          score: 7,
+        },
+        {
+          type: 'outbound-rtp',
+          bitrate: 999999,
+          packetsLost: 99,
+          fractionLost: 255,
+          jitter: 99999,
+          score: 0,
+        },
+      ] as Parameters<typeof toStreamStats>[3],
+      'inbound-rtp',
+    );
+
+    expect(stats).toEqual({
+      id: 'p1',
+      kind: 'video',
+      source: 'camera',
+      bitrate: 400000,
+      packetsLost: 7,
+      lossPercent: 50,
+      jitterMs: 50,
+      rttMs: 30,
+      score: 7,
+    });
+  });
+});
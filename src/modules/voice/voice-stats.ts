@@ -0,0 +1,147 @@
+import { ConsumerStat } from 'node_modules/mediasoup/node/lib/ConsumerTypes';
+import { ProducerStat } from 'node_modules/mediasoup/node/lib/ProducerTypes';
+import { WebRtcTransportStat } from 'node_modules/mediasoup/node/lib/WebRtcTransportTypes';
+
+export type QualityLevel = 'good' | 'fair' | 'poor';
+
+/** Limites a partir dos quais a conexão cai para o nível seguinte. */
+export interface QualityThresholds {
+  lossPercent: number;
+  jitterMs: number;
+  rttMs: number;
+}
+
+export interface StreamStats {
+  /** Id do producer ou consumer. */
+  id: string;
+  kind: 'audio' | 'video';
+  source?: string;
+  /** bps */
+  bitrate: number;
+  packetsLost: number;
+  lossPercent: number;
+  jitterMs: number;
+  rttMs?: number;
+  /** Nota do mediasoup, de 0 (péssimo) a 10. */
+  score: number;
+}
+
+export interface TransportStats {
+  id: string;
+  direction: 'send' | 'recv';
+  iceState: string;
+  dtlsState: string;
+  /** bps */
+  sendBitrate: number;
+  recvBitrate: number;
+  availableOutgoingBitrate?: number;
+}
+
+export interface ConnectionQuality {
+  level: QualityLevel;
+  /** Pior nota entre os streams do usuário, de 0 a 10. */
+  score: number;
+  lossPercent: number;
+  jitterMs: number;
+  rttMs?: number;
+}
+
+export interface VoiceUserStats {
+  userId: string;
+  userName: string;
+  collectedAt: Date;
+  transports: TransportStats[];
+  /** O que o usuário envia (mic, câmera, tela). */
+  producers: StreamStats[];
+  /** O que o usuário recebe dos outros. */
+  consumers: StreamStats[];
+  quality: ConnectionQuality;
+}
+
+// Todos os codecs do Router usam estes clock rates
+const CLOCK_RATE = { audio: 48000, video: 90000 };
+
+export function toTransportStats(
+  direction: 'send' | 'recv',
+  stats: WebRtcTransportStat[],
+): TransportStats | undefined {
+  const stat = stats[0];
+  if (!stat) return undefined;
+
+  return {
+    id: stat.transportId,
+    direction,
+    iceState: stat.iceState,
+    dtlsState: stat.dtlsState,
+    sendBitrate: stat.sendBitrate,
+    recvBitrate: stat.recvBitrate,
+    availableOutgoingBitrate: stat.availableOutgoingBitrate,
+  };
+}
+
+/**
+ * Junta as camadas de simulcast num só resumo (soma o bitrate, fica com o
+ * pior do resto). Consumers trazem também o stream do producer: só o
+ * `outbound-rtp`, que é o trecho servidor → cliente, entra na conta.
+ */
+export function toStreamStats(
+  id: string,
+  kind: 'audio' | 'video',
+  source: string | undefined,
+  stats: (ProducerStat | ConsumerStat)[],
+  type: 'inbound-rtp' | 'outbound-rtp',
+): StreamStats {
+  const streams = stats.filter((s) => s.type === type);
+  const rtts = streams.flatMap((s) =>
+    s.roundTripTime ? [s.roundTripTime] : [],
+  );
+
+  return {
+    id,
+    kind,
+    source,
+    bitrate: streams.reduce((sum, s) => sum + s.bitrate, 0),
+    packetsLost: streams.reduce((sum, s) => sum + s.packetsLost, 0),
+    // fractionLost vem do RTCP: 0-255
+    lossPercent: round(
+      Math.max(0, ...streams.map((s) => s.fractionLost)) / 2.56,
+    ),
+    jitterMs: round(
+      Math.max(0, ...streams.map((s) => s.jitter)) / (CLOCK_RATE[kind] / 1000),
+    ),
+    rttMs: rtts.length ? round(Math.max(...rtts)) : undefined,
+    score: streams.length ? Math.min(...streams.map((s) => s.score)) : 10,
+  };
+}
+
+/** Nível pela pior métrica entre todos os streams do usuário. */
+export function rateConnection(
+  streams: StreamStats[],
+  thresholds: Record<'fair' | 'poor', QualityThresholds>,
+): ConnectionQuality {
+  const rtts = streams.flatMap((s) => (s.rttMs !== undefined ? [s.rttMs] : []));
+  const worst = {
+    lossPercent: Math.max(0, ...streams.map((s) => s.lossPercent)),
+    jitterMs: Math.max(0, ...streams.map((s) => s.jitterMs)),
+    rttMs: rtts.length ? Math.max(...rtts) : undefined,
+  };
+
+  const exceeds = (limit: QualityThresholds) =>
+    worst.lossPercent >= limit.lossPercent ||
+    worst.jitterMs >= limit.jitterMs ||
+    (worst.rttMs ?? 0) >= limit.rttMs;
+
+  return {
+    level: exceeds(thresholds.poor)
+      ? 'poor'
+      : exceeds(thresholds.fair)
+        ? 'fair'
+        : 'good',
+    score: Math.min(10, ...streams.map((s) => s.score)),
+    ...worst,
+  };
+}
+
+function round(value: number) {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,42 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  NotFoundException,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOkResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentUserId, HttpAuthGuard } from '../auth/http-auth.guard';
+import { ChatService } from '../chat/chat.service';
+import { VoiceRoomStatsDto } from './dto/voice-stats.dto';
+import { VoiceService } from './voice.service';
+
+@ApiTags('voice')
+@ApiBearerAuth()
+@UseGuards(HttpAuthGuard)
+@Controller('voice/rooms')
+export class VoiceController {
+  constructor(
+    private readonly voiceService: VoiceService,
+    private readonly chatService: ChatService,
+  ) {}
+
+  @Get(':roomId/stats')
+  @ApiOkResponse({ type: VoiceRoomStatsDto })
+  stats(
+    @Param('roomId') roomId: string,
+    @CurrentUserId() userId: string,
+  ): VoiceRoomStatsDto {
+    if (!this.chatService.canAccessRoom(roomId, userId)) {
+      throw new ForbiddenException('Unauthorized');
+    }
+
+    const stats = this.voiceService.getRoomStats(roomId);
+    if (!stats) {
+      throw new NotFoundException('Voice room not found');
+    }
+
+    return stats;
+  }
+}
@@ -0,0 +1,185 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Server, Socket } from 'socket.io';
+import { userChannel } from '../auth/socket-auth';
+import { ChatService } from '../chat/chat.service';
+import { InMemoryChatRepository } from '../chat/repositories/in-memory-chat.repository';
+import { RecordingService } from './recording.service';
+import { VoiceGateway } from './voice.gateway';
+import { VoiceService } from './voice.service';
+
+describe('VoiceGateway', () => {
+  let gateway: VoiceGateway;
+  let chatService: ChatService;
+  let leaveVoiceChannel: jest.Mock;
+  let setServerMute: jest.Mock;
+  let setLocked: jest.Mock;
+  let emits: { room: string; event: string; payload: unknown }[];
+
+  const socket = (userId: string, voiceRoomId?: string) =>
+    ({
+      id: `socket-${userId}`,
+      data: { userId, voiceRoomId },
+      emit: jest.fn(),
+      join: jest.fn(),
+      leave: jest.fn(),
+    }) as unknown as Socket;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    leaveVoiceChannel = jest.fn();
+    setServerMute = jest.fn(
+      (_roomId: string, _userId: string, muted: boolean) =>
+        Promise.resolve({ isMuted: muted, serverMuted: muted }),
+    );
+    setLocked = jest.fn();
+    const voiceService = {
+      onRoomReset: jest.fn(),
+      onAudioLevels: jest.fn(),
+      onActiveSpeaker: jest.fn(),
+      onConnectionQuality: jest.fn(),
+      onTransportStateChange: jest.fn(),
+      leaveVoiceChannel,
+      setServerMute,
+      setLocked,
+      isInVoiceChannel: jest.fn().mockReturnValue(true),
+      getVoiceUsers: jest.fn().mockReturnValue([]),
+    } as unknown as VoiceService;
+    const recordingService = {
+      onRecordingStopped: jest.fn(),
+    } as unknown as RecordingService;
+
+    chatService = new ChatService(new InMemoryChatRepository());
+    gateway = new VoiceGateway(
+      voiceService,
+      recordingService,
+      chatService,
+      new ConfigService({ voice: { reconnectGraceMs: 1000 } }),
+    );
+
+    emits = [];
+    gateway.server = {
+      to: (room: string) => ({
+        emit: (event: string, payload: unknown) => {
+          emits.push({ room, event, payload });
+        },
+      }),
+      in: () => ({ fetchSockets: () => Promise.resolve([]) }),
+    } as unknown as Server;
+  });
+
+  afterEach(() => {
+    gateway.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  describe('handleDisconnect', () => {
+    it('tells the voice channel when the reconnect grace period expires', async () => {
+      jest.useFakeTimers();
+      await gateway.handleDisconnect(socket('alice', 'geral'));
+
+      expect(leaveVoiceChannel).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1000);
+
+      expect(leaveVoiceChannel).toHaveBeenCalledWith('geral', 'alice');
+      expect(emits).toContainEqual({
+        room: 'voice_geral',
+        event: 'voice_user_left',
+        payload: { userId: 'alice', roomId: 'geral' },
+      });
+      expect(emits.map((e) => e.room)).not.toContain('geral');
+    });
+  });
+
+  describe('moderation', () => {
+    beforeEach(() => {
+      chatService.createRoom('geral', 'owner');
+      chatService.setModerator('geral', 'owner', 'mod', true);
+    });
+
+    const denied = (client: Socket) =>
+      expect(
+        (client as unknown as { emit: jest.Mock }).emit,
+      ).toHaveBeenCalledWith('voice_error', {
+        message: 'Unauthorized',
+      });
+
+    it('lets a moderator server-mute a member', async () => {
+      await gateway.handleForceMute(socket('mod'), {
+        roomId: 'geral',
+        userId: 'alice',
+        isMuted: true,
+      });
+
+      expect(setServerMute).toHaveBeenCalledWith('geral', 'alice', true);
+      expect(emits).toContainEqual({
+        room: userChannel('alice'),
+        event: 'voice_force_muted',
+        payload: { roomId: 'geral', isMuted: true, by: 'mod' },
+      });
+    });
+
+    it('refuses server mute from a member or against an equal rank', async () => {
+      const member = socket('alice');
+      const moderator = socket('mod');
+
+      await gateway.handleForceMute(member, {
+        roomId: 'geral',
+        userId: 'bob',
+        isMuted: true,
+      });
+      await gateway.handleForceMute(moderator, {
+        roomId: 'geral',
+        userId: 'owner',
+        isMuted: true,
+      });
+
+      denied(member);
+      denied(moderator);
+      expect(setServerMute).not.toHaveBeenCalled();
+    });
+
+    it('lets a moderator kick a member from the voice channel', async () => {
+      await gateway.handleVoiceKick(socket('mod'), {
+        roomId: 'geral',
+        userId: 'alice',
+      });
+
+      expect(leaveVoiceChannel).toHaveBeenCalledWith('geral', 'alice');
+      expect(emits).toContainEqual({
+        room: userChannel('alice'),
+        event: 'voice_kicked',
+        payload: { roomId: 'geral', by: 'mod' },
+      });
+    });
+
+    it('refuses a voice kick against a higher rank', async () => {
+      const member = socket('alice');
+
+      await gateway.handleVoiceKick(member, { roomId: 'geral', userId: 'mod' });
+
+      denied(member);
+      expect(leaveVoiceChannel).not.toHaveBeenCalled();
+    });
+
+    it('lets only moderators lock the channel', () => {
+      const member = socket('alice');
+
+      gateway.handleVoiceLock(member, { roomId: 'geral', locked: true });
+      gateway.handleVoiceLock(socket('mod'), { roomId: 'geral', locked: true });
+
+      denied(member);
+      expect(setLocked).toHaveBeenCalledTimes(1);
+      expect(setLocked).toHaveBeenCalledWith('geral', true);
+      expect(emits).toContainEqual({
+        room: 'voice_geral',
+        event: 'voice_channel_locked',
+        payload: { roomId: 'geral', locked: true, by: 'mod' },
+      });
+    });
+  });
+});
@@ -1,357 +1,904 @@
 import {
-    WebSocketGateway,
-    WebSocketServer,
-    SubscribeMessage,
-    OnGatewayConnection,
-    OnGatewayDisconnect,
+  WebSocketGateway,
+  WebSocketServer,
+  SubscribeMessage,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { VoiceService } from './voice.service';
-import { Logger } from '@nestjs/common';
+import { getSocketUserId, userChannel } from '../auth/socket-auth';
+import { ChatService } from '../chat/chat.service';
+import { WsRateLimitGuard } from '../rate-limit/ws-rate-limit.guard';
+import { RecordingService } from './recording.service';
+import { ProducerSource, VoiceService } from './voice.service';
+import { Logger, OnModuleDestroy, UseGuards } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  RtpCapabilities,
+  RtpParameters,
+} from 'node_modules/mediasoup/node/lib/rtpParametersTypes';
+import { DtlsParameters } from 'node_modules/mediasoup/node/lib/WebRtcTransportTypes';
+
+/**
+ * Os Routers do mediasoup vivem no processo que atende o socket, então o
+ * canal de voz fica guardado no próprio socket e não num mapa por usuário:
+ * no modo cluster o processo que recebe a desconexão é o dono da mídia.
+ */
+interface VoiceSocketData {
+  voiceRoomId?: string;
+}
 
-@WebSocketGateway({
-    cors: { origin: '*' },
-})
-export class VoiceGateway implements OnGatewayConnection, OnGatewayDisconnect {
-    @WebSocketServer()
-    server: Server;
+const voiceData = (client: Pick<Socket, 'data'>) =>
+  client.data as VoiceSocketData;
 
-    private readonly logger = new Logger(VoiceGateway.name);
-    private userVoiceRooms = new Map<string, string>(); // userId -> roomId
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
 
-    constructor(private readonly voiceService: VoiceService) { }
+interface PendingLeave {
+  roomId: string;
+  timer: NodeJS.Timeout;
+}
 
-    handleConnection(client: Socket) {
-        this.logger.log(`🔌 Cliente conectado: ${client.id}`);
+@WebSocketGateway()
+@UseGuards(WsRateLimitGuard)
+export class VoiceGateway
+  implements OnGatewayConnection, OnGatewayDisconnect, OnModuleDestroy
+{
+  @WebSocketServer()
+  server: Server;
+
+  private readonly logger = new Logger(VoiceGateway.name);
+  /**
+   * Usuários cujo socket caiu, ainda no canal de voz até o fim do prazo de
+   * reconexão. A mídia é local, então no modo cluster a sessão só é
+   * retomada se o novo socket cair no mesmo processo.
+   */
+  private pendingLeaves = new Map<string, PendingLeave>();
+
+  constructor(
+    private readonly voiceService: VoiceService,
+    private readonly recordingService: RecordingService,
+    private readonly chatService: ChatService,
+    private readonly configService: ConfigService,
+  ) {
+    this.voiceService.onRoomReset((roomId) => {
+      this.logger.warn(
+        `🔁 Sala de voz ${roomId} reiniciada, pedindo reconexão`,
+      );
+      this.server.to(`voice_${roomId}`).emit('voice_reconnect', {
+        roomId,
+        reason: 'media_worker_restarted',
+      });
+    });
+
+    this.voiceService.onAudioLevels((roomId, levels) => {
+      this.server
+        .to(`voice_${roomId}`)
+        .emit('audio_levels', { roomId, levels });
+    });
+
+    this.voiceService.onActiveSpeaker((roomId, speaker) => {
+      this.server
+        .to(`voice_${roomId}`)
+        .emit('active_speaker', { roomId, ...speaker });
+    });
+
+    // Só o próprio usuário recebe a qualidade da sua conexão
+    this.voiceService.onConnectionQuality((roomId, userId, quality) => {
+      this.server.to(userChannel(userId)).emit('connection_quality', {
+        roomId,
+        userId,
+        ...quality,
+      });
+    });
+
+    this.voiceService.onTransportStateChange((roomId, userId, change) => {
+      this.server
+        .to(userChannel(userId))
+        .emit('transport_state', { roomId, ...change });
+    });
+
+    this.recordingService.onRecordingStopped((status) => {
+      this.server.to(`voice_${status.roomId}`).emit('recording_status', status);
+    });
+  }
+
+  handleConnection(client: Socket) {
+    this.logger.log(
+      `🔌 Cliente conectado: ${client.id} (usuário ${getSocketUserId(client)})`,
+    );
+  }
+
+  onModuleDestroy() {
+    this.pendingLeaves.forEach(({ timer }) => clearTimeout(timer));
+    this.pendingLeaves.clear();
+  }
+
+  async handleDisconnect(client: Socket) {
+    const userId = getSocketUserId(client);
+    this.logger.log(
+      `🔌 Cliente desconectado: ${client.id} (usuário ${userId})`,
+    );
+
+    const roomId = voiceData(client).voiceRoomId;
+    if (!roomId) return;
+    voiceData(client).voiceRoomId = undefined;
+
+    // Numa troca de rede o socket novo costuma entrar de novo antes do
+    // ping timeout do antigo: a sessão já é dele e não pode ser encerrada
+    const sockets = await this.server.in(userChannel(userId)).fetchSockets();
+    if (
+      sockets.some(
+        (s) => s.id !== client.id && voiceData(s).voiceRoomId === roomId,
+      )
+    ) {
+      return;
     }
 
-    async handleDisconnect(client: Socket) {
-        this.logger.log(`🔌 Cliente desconectado: ${client.id}`);
-
-        // Remover usuário de qualquer canal de voz
-        const roomId = this.userVoiceRooms.get(client.id);
-        if (roomId) {
-            await this.voiceService.leaveVoiceChannel(roomId, client.id);
-            this.userVoiceRooms.delete(client.id);
-
-            // Notificar outros usuários
-            this.server.to(roomId).emit('voice_user_left', {
-                userId: client.id,
-                roomId,
-            });
-        }
+    const graceMs = this.configService.getOrThrow<number>(
+      'voice.reconnectGraceMs',
+    );
+    if (graceMs <= 0) {
+      this.removeFromVoice(roomId, userId);
+      return;
     }
 
-    /**
-     * Entrar em um canal de voz
-     */
-    @SubscribeMessage('join_voice_channel')
-    async handleJoinVoiceChannel(
-        client: Socket,
-        payload: { roomId: string; userName: string },
-    ) {
-        try {
-            const { roomId, userName } = payload;
-
-            const result = await this.voiceService.joinVoiceChannel(
-                roomId,
-                client.id,
-                userName,
-            );
-
-            this.userVoiceRooms.set(client.id, roomId);
-            client.join(`voice_${roomId}`);
-
-            // Notificar todos na sala
-            this.server.to(`voice_${roomId}`).emit('voice_users_updated', {
-                roomId,
-                users: result.users,
-            });
-
-            client.emit('joined_voice_channel', {
-                roomId,
-                users: result.users,
-            });
-
-            this.logger.log(`🎙️ Usuário ${userName} entrou no canal de voz: ${roomId}`);
-        } catch (error) {
-            this.logger.error(`Erro ao entrar no canal de voz: ${error.message}`);
-            client.emit('voice_error', { message: error.message });
-        }
+    // Transports, producers e consumers ficam vivos até o prazo acabar:
+    // se o usuário voltar a tempo, retoma a sessão em join_voice_channel
+    const previous = this.cancelPendingLeave(userId);
+    if (previous && previous.roomId !== roomId) {
+      this.removeFromVoice(previous.roomId, userId);
     }
 
-    /**
-     * Sair de um canal de voz
-     */
-    @SubscribeMessage('leave_voice_channel')
-    async handleLeaveVoiceChannel(client: Socket, payload: { roomId: string }) {
-        try {
-            const { roomId } = payload;
-
-            await this.voiceService.leaveVoiceChannel(roomId, client.id);
-            this.userVoiceRooms.delete(client.id);
-            client.leave(`voice_${roomId}`);
-
-            // Notificar outros usuários
-            this.server.to(`voice_${roomId}`).emit('voice_user_left', {
-                userId: client.id,
-                roomId,
-            });
-
-            // Atualizar lista de usuários
-            const users = this.voiceService.getVoiceUsers(roomId);
-            this.server.to(`voice_${roomId}`).emit('voice_users_updated', {
-                roomId,
-                users,
-            });
-
-            client.emit('left_voice_channel', { roomId });
-
-            this.logger.log(`👋 Usuário ${client.id} saiu do canal de voz: ${roomId}`);
-        } catch (error) {
-            this.logger.error(`Erro ao sair do canal de voz: ${error.message}`);
-            client.emit('voice_error', { message: error.message });
+    this.pendingLeaves.set(userId, {
+      roomId,
+      timer: setTimeout(() => {
+        this.pendingLeaves.delete(userId);
+        this.removeFromVoice(roomId, userId);
+      }, graceMs),
+    });
+
+    this.server.to(`voice_${roomId}`).emit('voice_user_reconnecting', {
+      userId,
+      roomId,
+      graceMs,
+    });
+  }
+
+  /**
+   * Entrar em um canal de voz
+   */
+  @SubscribeMessage('join_voice_channel')
+  async handleJoinVoiceChannel(
+    client: Socket,
+    payload: { roomId: string; userName: string },
+  ) {
+    try {
+      const userId = getSocketUserId(client);
+      const { roomId, userName } = payload;
+
+      // Mesma regra do chat: banido, kick recente ou fora da sala privada
+      if (!this.chatService.canAccessRoom(roomId, userId)) {
+        throw new Error('Unauthorized');
+      }
+
+      const pending = this.cancelPendingLeave(userId);
+      const resumed =
+        pending?.roomId === roomId &&
+        this.voiceService.isInVoiceChannel(roomId, userId);
+      if (pending && pending.roomId !== roomId) {
+        this.removeFromVoice(pending.roomId, userId);
+      }
+
+      const result = await this.voiceService.joinVoiceChannel(
+        roomId,
+        userId,
+        userName,
+        this.chatService.canModerate(roomId, userId),
+      );
+
+      voiceData(client).voiceRoomId = roomId;
+      client.join(`voice_${roomId}`);
+
+      // Notificar todos na sala
+      this.server.to(`voice_${roomId}`).emit('voice_users_updated', {
+        roomId,
+        users: result.users,
+      });
+
+      client.emit('joined_voice_channel', {
+        roomId,
+        users: result.users,
+        locked: this.voiceService.isLocked(roomId),
+        resumed,
+        // Sessão retomada: o cliente reaproveita o que continua vivo
+        session: resumed
+          ? this.voiceService.getUserSession(roomId, userId)
+          : undefined,
+      });
+
+      // Quem entra precisa saber que a sala está sendo gravada
+      const recording = this.recordingService.getStatus(roomId);
+      if (recording) {
+        client.emit('recording_status', recording);
+      }
+
+      this.logger.log(
+        `🎙️ Usuário ${userName} entrou no canal de voz: ${roomId}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Erro ao entrar no canal de voz: ${errorMessage(error)}`,
+      );
+      client.emit('voice_error', { message: errorMessage(error) });
+    }
+  }
+
+  /**
+   * Sair de um canal de voz
+   */
+  @SubscribeMessage('leave_voice_channel')
+  handleLeaveVoiceChannel(client: Socket, payload: { roomId: string }) {
+    try {
+      const userId = getSocketUserId(client);
+      const { roomId } = payload;
+
+      const pending = this.cancelPendingLeave(userId);
+      if (pending && pending.roomId !== roomId) {
+        this.removeFromVoice(pending.roomId, userId);
+      }
+
+      this.voiceService.leaveVoiceChannel(roomId, userId);
+      voiceData(client).voiceRoomId = undefined;
+      client.leave(`voice_${roomId}`);
+
+      // Notificar outros usuários
+      this.server.to(`voice_${roomId}`).emit('voice_user_left', {
+        userId,
+        roomId,
+      });
+
+      // Atualizar lista de usuários
+      const users = this.voiceService.getVoiceUsers(roomId);
+      this.server.to(`voice_${roomId}`).emit('voice_users_updated', {
+        roomId,
+        users,
+      });
+
+      client.emit('left_voice_channel', { roomId });
+
+      this.logger.log(`👋 Usuário ${userId} saiu do canal de voz: ${roomId}`);
+    } catch (error) {
+      this.logger.error(`Erro ao sair do canal de voz: ${errorMessage(error)}`);
+      client.emit('voice_error', { message: errorMessage(error) });
+    }
+  }
+
+  /**
+   * Toggle Mute/Unmute
+   */
+  @SubscribeMessage('toggle_mute')
+  async handleToggleMute(
+    client: Socket,
+    payload: { roomId: string; isMuted: boolean },
+  ) {
+    try {
+      const userId = getSocketUserId(client);
+      const { roomId, isMuted } = payload;
+
+      await this.voiceService.toggleMute(roomId, userId, isMuted);
+
+      // Notificar todos na sala
+      this.server.to(`voice_${roomId}`).emit('user_mute_changed', {
+        userId,
+        isMuted,
+        roomId,
+      });
+
+      client.emit('mute_toggled', { isMuted });
+
+      this.logger.log(
+        `🔇 Usuário ${userId} ${isMuted ? 'mutado' : 'desmutado'}`,
+      );
+    } catch (error) {
+      this.logger.error(`Erro ao mutar/desmutar: ${errorMessage(error)}`);
+      client.emit('voice_error', { message: errorMessage(error) });
+    }
+  }
+
+  /**
+   * Moderação: mutar (ou liberar) o microfone de outro usuário
+   */
+  @SubscribeMessage('voice_force_mute')
+  async handleForceMute(
+    client: Socket,
+    payload: { roomId: string; userId: string; isMuted: boolean },
+  ) {
+    try {
+      const actorId = getSocketUserId(client);
+      const { roomId, userId, isMuted } = payload;
+      this.assertModerator(roomId, actorId, userId);
+
+      const result = await this.voiceService.setServerMute(
+        roomId,
+        userId,
+        isMuted,
+      );
+
+      this.server.to(userChannel(userId)).emit('voice_force_muted', {
+        roomId,
+        isMuted,
+        by: actorId,
+      });
+
+      this.server.to(`voice_${roomId}`).emit('user_mute_changed', {
+        userId,
+        isMuted: result.isMuted,
+        serverMuted: result.serverMuted,
+        roomId,
+      });
+
+      this.logger.log(
+        `🛡️ Usuário ${userId} ${isMuted ? 'mutado' : 'liberado'} por ${actorId}`,
+      );
+    } catch (error) {
+      this.logger.error(`Erro ao mutar usuário: ${errorMessage(error)}`);
+      client.emit('voice_error', { message: errorMessage(error) });
+    }
+  }
+
+  /**
+   * Moderação: tirar um usuário do canal de voz
+   */
+  @SubscribeMessage('voice_kick')
+  async handleVoiceKick(
+    client: Socket,
+    payload: { roomId: string; userId: string },
+  ) {
+    try {
+      const actorId = getSocketUserId(client);
+      const { roomId, userId } = payload;
+      this.assertModerator(roomId, actorId, userId);
+
+      if (!this.voiceService.isInVoiceChannel(roomId, userId)) {
+        throw new Error('User not found in voice room');
+      }
+
+      // Quem caiu e seria removido no fim do prazo sai agora
+      if (this.pendingLeaves.get(userId)?.roomId === roomId) {
+        this.cancelPendingLeave(userId);
+      }
+
+      this.voiceService.leaveVoiceChannel(roomId, userId);
+
+      // Os sockets locais compartilham `data` com o RemoteSocket
+      const sockets = await this.server.in(userChannel(userId)).fetchSockets();
+      for (const socket of sockets) {
+        if (voiceData(socket).voiceRoomId === roomId) {
+          voiceData(socket).voiceRoomId = undefined;
+          socket.leave(`voice_${roomId}`);
         }
+      }
+
+      this.server
+        .to(userChannel(userId))
+        .emit('voice_kicked', { roomId, by: actorId });
+
+      this.server.to(`voice_${roomId}`).emit('voice_user_left', {
+        userId,
+        roomId,
+      });
+
+      this.server.to(`voice_${roomId}`).emit('voice_users_updated', {
+        roomId,
+        users: this.voiceService.getVoiceUsers(roomId),
+      });
+
+      this.logger.log(
+        `🚫 Usuário ${userId} removido do canal de voz ${roomId} por ${actorId}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Erro ao remover usuário do canal de voz: ${errorMessage(error)}`,
+      );
+      client.emit('voice_error', { message: errorMessage(error) });
+    }
+  }
+
+  /**
+   * Moderação: trancar ou destrancar o canal contra novas entradas
+   */
+  @SubscribeMessage('voice_lock')
+  handleVoiceLock(
+    client: Socket,
+    payload: { roomId: string; locked: boolean },
+  ) {
+    try {
+      const actorId = getSocketUserId(client);
+      const { roomId, locked } = payload;
+      this.assertModerator(roomId, actorId);
+
+      this.voiceService.setLocked(roomId, locked);
+
+      this.server.to(`voice_${roomId}`).emit('voice_channel_locked', {
+        roomId,
+        locked,
+        by: actorId,
+      });
+    } catch (error) {
+      this.logger.error(`Erro ao trancar canal de voz: ${errorMessage(error)}`);
+      client.emit('voice_error', { message: errorMessage(error) });
+    }
+  }
+
+  /**
+   * Reiniciar ICE de um transport (troca de rede, ICE desconectado)
+   */
+  @SubscribeMessage('restart_ice')
+  async handleRestartIce(
+    client: Socket,
+    payload: { roomId: string; transportId: string },
+  ) {
+    try {
+      const userId = getSocketUserId(client);
+      const { roomId, transportId } = payload;
+
+      const result = await this.voiceService.restartIce(
+        roomId,
+        userId,
+        transportId,
+      );
+
+      client.emit('ice_restarted', { roomId, ...result });
+    } catch (error) {
+      this.logger.error(`Erro ao reiniciar ICE: ${errorMessage(error)}`);
+      client.emit('voice_error', { message: errorMessage(error) });
+    }
+  }
+
+  /**
+   * Obter RTP Capabilities do Router
+   */
+  @SubscribeMessage('get_router_rtp_capabilities')
+  handleGetRouterRtpCapabilities(client: Socket, payload: { roomId: string }) {
+    try {
+      const userId = getSocketUserId(client);
+      const { roomId } = payload;
+
+      if (!this.chatService.canAccessRoom(roomId, userId)) {
+        throw new Error('Unauthorized');
+      }
+
+      const rtpCapabilities =
+        this.voiceService.getRouterRtpCapabilities(roomId);
+
+      client.emit('router_rtp_capabilities', {
+        roomId,
+        rtpCapabilities,
+      });
+
+      this.logger.log(`📡 RTP Capabilities enviadas para ${userId}`);
+    } catch (error) {
+      this.logger.error(
+        `Erro ao obter RTP capabilities: ${errorMessage(error)}`,
+      );
+      client.emit('voice_error', { message: errorMessage(error) });
+    }
+  }
+
+  /**
+   * Criar WebRtcTransport
+   */
+  @SubscribeMessage('create_webrtc_transport')
+  async handleCreateWebRtcTransport(
+    client: Socket,
+    payload: { roomId: string; direction: 'send' | 'recv' },
+  ) {
+    try {
+      const userId = getSocketUserId(client);
+      const { roomId, direction } = payload;
+
+      const transportData = await this.voiceService.createWebRtcTransport(
+        roomId,
+        userId,
+        direction,
+      );
+
+      client.emit('webrtc_transport_created', {
+        roomId,
+        direction,
+        id: transportData.id,
+        iceParameters: transportData.iceParameters,
+        iceCandidates: transportData.iceCandidates,
+        dtlsParameters: transportData.dtlsParameters,
+        iceServers: transportData.iceServers,
+        iceTransportPolicy: transportData.iceTransportPolicy,
+      });
+
+      this.logger.log(`🚀 WebRtcTransport criado para ${userId}`);
+    } catch (error) {
+      this.logger.error(
+        `Erro ao criar WebRtcTransport: ${errorMessage(error)}`,
+      );
+      client.emit('voice_error', { message: errorMessage(error) });
+    }
+  }
+
+  /**
+   * Conectar WebRtcTransport
+   */
+  @SubscribeMessage('connect_webrtc_transport')
+  async handleConnectWebRtcTransport(
+    client: Socket,
+    payload: {
+      roomId: string;
+      transportId: string;
+      dtlsParameters: DtlsParameters;
+    },
+  ) {
+    try {
+      const userId = getSocketUserId(client);
+      const { roomId, transportId, dtlsParameters } = payload;
+
+      await this.voiceService.connectWebRtcTransport(
+        roomId,
+        userId,
+        transportId,
+        dtlsParameters,
+      );
+
+      client.emit('webrtc_transport_connected', { transportId });
+
+      this.logger.log(`🔗 WebRtcTransport conectado: ${transportId}`);
+    } catch (error) {
+      this.logger.error(
+        `Erro ao conectar WebRtcTransport: ${errorMessage(error)}`,
+      );
+      client.emit('voice_error', { message: errorMessage(error) });
+    }
+  }
+
+  /**
+   * Produzir áudio ou vídeo (mic, câmera ou tela)
+   */
+  @SubscribeMessage('produce')
+  async handleProduce(
+    client: Socket,
+    payload: {
+      roomId: string;
+      transportId: string;
+      kind: 'audio' | 'video';
+      rtpParameters: RtpParameters;
+      source?: ProducerSource;
+    },
+  ) {
+    try {
+      const userId = getSocketUserId(client);
+      const { roomId, transportId, kind, rtpParameters, source } = payload;
+
+      const result = await this.voiceService.produce(
+        roomId,
+        userId,
+        transportId,
+        kind,
+        rtpParameters,
+        source,
+      );
+
+      client.emit('produced', {
+        id: result.id,
+        kind: result.kind,
+        source: result.source,
+      });
+
+      // Notificar TODOS na sala (inclusive o produtor) sobre o novo producer
+      const users = this.voiceService.getVoiceUsers(roomId);
+      this.server.to(`voice_${roomId}`).emit('voice_users_updated', {
+        roomId,
+        users,
+      });
+
+      this.server.to(`voice_${roomId}`).emit('new_producer', {
+        userId,
+        producerId: result.id,
+        kind: result.kind,
+        source: result.source,
+        roomId,
+      });
+
+      this.logger.log(
+        `🎤 Producer criado: ${result.id} para usuário ${userId}`,
+      );
+    } catch (error) {
+      this.logger.error(`Erro ao produzir: ${errorMessage(error)}`);
+      client.emit('voice_error', { message: errorMessage(error) });
+    }
+  }
+
+  /**
+   * Encerrar producer (desligar câmera, parar compartilhamento de tela)
+   */
+  @SubscribeMessage('close_producer')
+  handleCloseProducer(
+    client: Socket,
+    payload: { roomId: string; producerId: string },
+  ) {
+    try {
+      const userId = getSocketUserId(client);
+      const { roomId, producerId } = payload;
+
+      const result = this.voiceService.closeProducer(
+        roomId,
+        userId,
+        producerId,
+      );
+
+      this.server.to(`voice_${roomId}`).emit('producer_closed', {
+        userId,
+        producerId,
+        source: result.source,
+        roomId,
+      });
+
+      this.server.to(`voice_${roomId}`).emit('voice_users_updated', {
+        roomId,
+        users: this.voiceService.getVoiceUsers(roomId),
+      });
+    } catch (error) {
+      this.logger.error(`Erro ao encerrar producer: ${errorMessage(error)}`);
+      client.emit('voice_error', { message: errorMessage(error) });
+    }
+  }
+
+  /**
+   * Consumir áudio ou vídeo
+   */
+  @SubscribeMessage('consume')
+  async handleConsume(
+    client: Socket,
+    payload: {
+      roomId: string;
+      producerId: string;
+      rtpCapabilities: RtpCapabilities;
+    },
+  ) {
+    try {
+      const userId = getSocketUserId(client);
+      const { roomId, producerId, rtpCapabilities } = payload;
+
+      const result = await this.voiceService.consume(
+        roomId,
+        userId,
+        producerId,
+        rtpCapabilities,
+      );
+
+      client.emit('consumed', {
+        id: result.id,
+        producerId: result.producerId,
+        kind: result.kind,
+        type: result.type,
+        source: result.source,
+        rtpParameters: result.rtpParameters,
+      });
+
+      this.logger.log(
+        `🔊 Consumer criado: ${result.id} para usuário ${userId}`,
+      );
+    } catch (error) {
+      this.logger.error(`Erro ao consumir: ${errorMessage(error)}`);
+      client.emit('voice_error', { message: errorMessage(error) });
+    }
+  }
+
+  /**
+   * Retomar consumer
+   */
+  @SubscribeMessage('resume_consumer')
+  async handleResumeConsumer(
+    client: Socket,
+    payload: { roomId: string; consumerId: string },
+  ) {
+    try {
+      const userId = getSocketUserId(client);
+      const { roomId, consumerId } = payload;
+
+      await this.voiceService.resumeConsumer(roomId, userId, consumerId);
+
+      client.emit('consumer_resumed', { consumerId });
+
+      this.logger.log(`▶️ Consumer retomado: ${consumerId}`);
+    } catch (error) {
+      this.logger.error(`Erro ao retomar consumer: ${errorMessage(error)}`);
+      client.emit('voice_error', { message: errorMessage(error) });
+    }
+  }
+
+  /**
+   * Escolher camada de simulcast/SVC de um consumer de vídeo
+   */
+  @SubscribeMessage('set_consumer_layers')
+  async handleSetConsumerLayers(
+    client: Socket,
+    payload: {
+      roomId: string;
+      consumerId: string;
+      spatialLayer: number;
+      temporalLayer?: number;
+    },
+  ) {
+    try {
+      const userId = getSocketUserId(client);
+      const { roomId, consumerId, spatialLayer, temporalLayer } = payload;
+
+      const result = await this.voiceService.setConsumerPreferredLayers(
+        roomId,
+        userId,
+        consumerId,
+        spatialLayer,
+        temporalLayer,
+      );
+
+      client.emit('consumer_layers_set', result);
+    } catch (error) {
+      this.logger.error(`Erro ao definir camadas: ${errorMessage(error)}`);
+      client.emit('voice_error', { message: errorMessage(error) });
     }
+  }
 
-    /**
-     * Toggle Mute/Unmute
-     */
-    @SubscribeMessage('toggle_mute')
-    async handleToggleMute(
-        client: Socket,
-        payload: { roomId: string; isMuted: boolean },
-    ) {
-        try {
-            const { roomId, isMuted } = payload;
+  /**
+   * Iniciar gravação dos microfones da sala
+   */
+  @SubscribeMessage('start_recording')
+  async handleStartRecording(client: Socket, payload: { roomId: string }) {
+    try {
+      const userId = getSocketUserId(client);
+      const { roomId } = payload;
 
-            await this.voiceService.toggleMute(roomId, client.id, isMuted);
+      // Gravar a sala inteira é decisão de moderação
+      this.assertModerator(roomId, userId);
 
-            // Notificar todos na sala
-            this.server.to(`voice_${roomId}`).emit('user_mute_changed', {
-                userId: client.id,
-                isMuted,
-                roomId,
-            });
+      const status = await this.recordingService.startRecording(roomId, userId);
 
-            client.emit('mute_toggled', { isMuted });
+      this.server.to(`voice_${roomId}`).emit('recording_status', status);
 
-            this.logger.log(`🔇 Usuário ${client.id} ${isMuted ? 'mutado' : 'desmutado'}`);
-        } catch (error) {
-            this.logger.error(`Erro ao mutar/desmutar: ${error.message}`);
-            client.emit('voice_error', { message: error.message });
-        }
+      this.logger.log(`⏺️ Gravação iniciada na sala ${roomId} por ${userId}`);
+    } catch (error) {
+      this.logger.error(`Erro ao iniciar gravação: ${errorMessage(error)}`);
+      client.emit('voice_error', { message: errorMessage(error) });
     }
-
-    /**
-     * Obter RTP Capabilities do Router
-     */
-    @SubscribeMessage('get_router_rtp_capabilities')
-    async handleGetRouterRtpCapabilities(
-        client: Socket,
-        payload: { roomId: string },
-    ) {
-        try {
-            const { roomId } = payload;
-            const rtpCapabilities = await this.voiceService.getRouterRtpCapabilities(roomId);
-
-            client.emit('router_rtp_capabilities', {
-                roomId,
-                rtpCapabilities,
-            });
-
-            this.logger.log(`📡 RTP Capabilities enviadas para ${client.id}`);
-        } catch (error) {
-            this.logger.error(`Erro ao obter RTP capabilities: ${error.message}`);
-            client.emit('voice_error', { message: error.message });
-        }
+  }
+
+  /**
+   * Parar gravação e gerar o manifest
+   */
+  @SubscribeMessage('stop_recording')
+  async handleStopRecording(client: Socket, payload: { roomId: string }) {
+    try {
+      const userId = getSocketUserId(client);
+      const { roomId } = payload;
+
+      if (
+        !this.voiceService
+          .getVoiceUsers(roomId)
+          .some((u) => u.userId === userId)
+      ) {
+        throw new Error('User not found in voice room');
+      }
+      this.assertModerator(roomId, userId);
+
+      const status = await this.recordingService.stopRecording(roomId);
+      if (!status) {
+        throw new Error('Room is not being recorded');
+      }
+
+      this.server.to(`voice_${roomId}`).emit('recording_status', status);
+
+      this.logger.log(`⏹️ Gravação parada na sala ${roomId} por ${userId}`);
+    } catch (error) {
+      this.logger.error(`Erro ao parar gravação: ${errorMessage(error)}`);
+      client.emit('voice_error', { message: errorMessage(error) });
     }
-
-    /**
-     * Criar WebRtcTransport
-     */
-    @SubscribeMessage('create_webrtc_transport')
-    async handleCreateWebRtcTransport(
-        client: Socket,
-        payload: { roomId: string; direction: 'send' | 'recv' },
-    ) {
-        try {
-            const { roomId, direction } = payload;
-
-            const transportData = await this.voiceService.createWebRtcTransport(
-                roomId,
-                client.id,
-                direction,
-            );
-
-            client.emit('webrtc_transport_created', {
-                roomId,
-                direction,
-                id: transportData.id,
-                iceParameters: transportData.iceParameters,
-                iceCandidates: transportData.iceCandidates,
-                dtlsParameters: transportData.dtlsParameters,
-            });
-
-            this.logger.log(`🚀 WebRtcTransport criado para ${client.id}`);
-        } catch (error) {
-            this.logger.error(`Erro ao criar WebRtcTransport: ${error.message}`);
-            client.emit('voice_error', { message: error.message });
-        }
+  }
+
+  /**
+   * Stats de conexão (perda, jitter, RTT, bitrate) de todos na sala
+   */
+  @SubscribeMessage('get_voice_stats')
+  handleGetVoiceStats(client: Socket, payload: { roomId: string }) {
+    try {
+      const userId = getSocketUserId(client);
+      const { roomId } = payload;
+
+      if (!this.chatService.canAccessRoom(roomId, userId)) {
+        throw new Error('Unauthorized');
+      }
+
+      const stats = this.voiceService.getRoomStats(roomId);
+      if (!stats) {
+        throw new Error('Voice room not found');
+      }
+
+      client.emit('voice_stats', stats);
+    } catch (error) {
+      this.logger.error(`Erro ao obter stats de voz: ${errorMessage(error)}`);
+      client.emit('voice_error', { message: errorMessage(error) });
     }
-
-    /**
-     * Conectar WebRtcTransport
-     */
-    @SubscribeMessage('connect_webrtc_transport')
-    async handleConnectWebRtcTransport(
-        client: Socket,
-        payload: { roomId: string; transportId: string; dtlsParameters: any },
-    ) {
-        try {
-            const { roomId, transportId, dtlsParameters } = payload;
-
-            await this.voiceService.connectWebRtcTransport(
-                roomId,
-                client.id,
-                transportId,
-                dtlsParameters,
-            );
-
-            client.emit('webrtc_transport_connected', { transportId });
-
-            this.logger.log(`🔗 WebRtcTransport conectado: ${transportId}`);
-        } catch (error) {
-            this.logger.error(`Erro ao conectar WebRtcTransport: ${error.message}`);
-            client.emit('voice_error', { message: error.message });
-        }
+  }
+
+  /**
+   * Obter producers disponíveis
+   */
+  @SubscribeMessage('get_producers')
+  handleGetProducers(client: Socket, payload: { roomId: string }) {
+    try {
+      const userId = getSocketUserId(client);
+      const { roomId } = payload;
+
+      const producers = this.voiceService.getProducersForUser(roomId, userId);
+
+      client.emit('producers_list', {
+        roomId,
+        producers,
+      });
+
+      this.logger.log(`📋 Lista de producers enviada para ${userId}`);
+    } catch (error) {
+      this.logger.error(`Erro ao obter producers: ${errorMessage(error)}`);
+      client.emit('voice_error', { message: errorMessage(error) });
     }
-
-    /**
-     * Produzir áudio
-     */
-    @SubscribeMessage('produce')
-    async handleProduce(
-        client: Socket,
-        payload: {
-            roomId: string;
-            transportId: string;
-            kind: 'audio' | 'video';
-            rtpParameters: any;
-        },
-    ) {
-        try {
-            const { roomId, transportId, kind, rtpParameters } = payload;
-
-            const result = await this.voiceService.produce(
-                roomId,
-                client.id,
-                transportId,
-                kind,
-                rtpParameters,
-            );
-
-            client.emit('produced', {
-                id: result.id,
-            });
-
-            // Notificar TODOS na sala (inclusive o produtor) sobre o novo producer
-            const users = this.voiceService.getVoiceUsers(roomId);
-            this.server.to(`voice_${roomId}`).emit('voice_users_updated', {
-                roomId,
-                users,
-            });
-
-            this.server.to(`voice_${roomId}`).emit('new_producer', {
-                userId: client.id,
-                producerId: result.id,
-                roomId,
-            });
-
-            this.logger.log(`🎤 Producer criado: ${result.id} para usuário ${client.id}`);
-        } catch (error) {
-            this.logger.error(`Erro ao produzir: ${error.message}`);
-            client.emit('voice_error', { message: error.message });
-        }
+  }
+
+  /**
+   * Saída definitiva do canal de voz de quem desconectou, na hora ou ao
+   * fim do prazo de reconexão
+   */
+  private removeFromVoice(roomId: string, userId: string) {
+    try {
+      this.voiceService.leaveVoiceChannel(roomId, userId);
+
+      // Notificar outros usuários
+      this.server.to(`voice_${roomId}`).emit('voice_user_left', {
+        userId,
+        roomId,
+      });
+
+      this.server.to(`voice_${roomId}`).emit('voice_users_updated', {
+        roomId,
+        users: this.voiceService.getVoiceUsers(roomId),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Erro ao remover ${userId} do canal de voz: ${errorMessage(error)}`,
+      );
     }
-
-    /**
-     * Consumir áudio
-     */
-    @SubscribeMessage('consume')
-    async handleConsume(
-        client: Socket,
-        payload: {
-            roomId: string;
-            producerId: string;
-            rtpCapabilities: any;
-        },
-    ) {
-        try {
-            const { roomId, producerId, rtpCapabilities } = payload;
-
-            const result = await this.voiceService.consume(
-                roomId,
-                client.id,
-                producerId,
-                rtpCapabilities,
-            );
-
-            client.emit('consumed', {
-                id: result.id,
-                producerId: result.producerId,
-                kind: result.kind,
-                rtpParameters: result.rtpParameters,
-            });
-
-            this.logger.log(`🔊 Consumer criado: ${result.id} para usuário ${client.id}`);
-        } catch (error) {
-            this.logger.error(`Erro ao consumir: ${error.message}`);
-            client.emit('voice_error', { message: error.message });
-        }
+  }
+
+  /**
+   * Cancela o prazo de reconexão pendente e o devolve; quem chama decide
+   * se retoma a sessão ou remove o usuário daquele canal.
+   */
+  private cancelPendingLeave(userId: string) {
+    const pending = this.pendingLeaves.get(userId);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pendingLeaves.delete(userId);
     }
 
-    /**
-     * Retomar consumer
-     */
-    @SubscribeMessage('resume_consumer')
-    async handleResumeConsumer(
-        client: Socket,
-        payload: { roomId: string; consumerId: string },
-    ) {
-        try {
-            const { roomId, consumerId } = payload;
+    return pending;
+  }
 
-            await this.voiceService.resumeConsumer(roomId, client.id, consumerId);
+  /**
+   * Cargos vêm da sala de chat: owner e moderadores moderam a voz, e só
+   * agem sobre quem tem cargo menor.
+   */
+  private assertModerator(roomId: string, actorId: string, targetId?: string) {
+    const allowed = targetId
+      ? this.chatService.outranks(roomId, actorId, targetId)
+      : this.chatService.canModerate(roomId, actorId);
 
-            client.emit('consumer_resumed', { consumerId });
-
-            this.logger.log(`▶️ Consumer retomado: ${consumerId}`);
-        } catch (error) {
-            this.logger.error(`Erro ao retomar consumer: ${error.message}`);
-            client.emit('voice_error', { message: error.message });
-        }
-    }
-
-    /**
-     * Obter producers disponíveis
-     */
-    @SubscribeMessage('get_producers')
-    async handleGetProducers(client: Socket, payload: { roomId: string }) {
-        try {
-            const { roomId } = payload;
-
-            const producers = this.voiceService.getProducersForUser(roomId, client.id);
-
-            client.emit('producers_list', {
-                roomId,
-                producers,
-            });
-
-            this.logger.log(`📋 Lista de producers enviada para ${client.id}`);
-        } catch (error) {
-            this.logger.error(`Erro ao obter producers: ${error.message}`);
-            client.emit('voice_error', { message: error.message });
-        }
+    if (!allowed) {
+      throw new Error('Unauthorized');
     }
+  }
 }
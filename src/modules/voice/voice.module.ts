@@ -1,9 +1,17 @@
 import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { ChatModule } from '../chat/chat.module';
+import { RateLimitModule } from '../rate-limit/rate-limit.module';
+import { RecordingService } from './recording.service';
+import { VoiceController } from './voice.controller';
 import { VoiceGateway } from './voice.gateway';
 import { VoiceService } from './voice.service';
+import { WorkerPoolService } from './worker-pool.service';
 
 @Module({
-    providers: [VoiceGateway, VoiceService],
-    exports: [VoiceService],
+  imports: [AuthModule, ChatModule, RateLimitModule],
+  controllers: [VoiceController],
+  providers: [VoiceGateway, VoiceService, WorkerPoolService, RecordingService],
+  exports: [VoiceService],
 })
-export class VoiceModule { }
+export class VoiceModule {}
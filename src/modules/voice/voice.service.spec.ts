@@ -0,0 +1,264 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter } from 'events';
+import { RtpParameters } from 'node_modules/mediasoup/node/lib/rtpParametersTypes';
+import { VoiceService } from './voice.service';
+import { WorkerPoolService } from './worker-pool.service';
+
+let nextId = 1;
+let consumerType = 'simulcast';
+let produced: Record<string, unknown>[] = [];
+
+/** Producer/consumer falso: só o que o serviço lê do mediasoup. */
+function fakeMedia(options: Record<string, unknown>) {
+  const media = {
+    id: `media-${nextId++}`,
+    observer: new EventEmitter(),
+    preferredLayers: undefined as unknown,
+    setPreferredLayers: (layers: unknown) => {
+      media.preferredLayers = layers;
+      return Promise.resolve();
+    },
+    close: () => media.observer.emit('close'),
+    ...options,
+  };
+  return media;
+}
+
+/** Router falso com transports que criam producers e consumers falsos. */
+function fakeRouter() {
+  const observer = () =>
+    Object.assign(new EventEmitter(), {
+      addProducer: () => Promise.resolve(),
+    });
+
+  return {
+    createAudioLevelObserver: () => Promise.resolve(observer()),
+    createActiveSpeakerObserver: () => Promise.resolve(observer()),
+    canConsume: () => true,
+    createWebRtcTransport: () =>
+      Promise.resolve(
+        Object.assign(new EventEmitter(), {
+          id: `transport-${nextId++}`,
+          setMaxIncomingBitrate: () => Promise.resolve(),
+          setMaxOutgoingBitrate: () => Promise.resolve(),
+          close: jest.fn(),
+          produce: (options: Record<string, unknown>) => {
+            const producer = fakeMedia(options);
+            produced.push(producer);
+            return Promise.resolve(producer);
+          },
+          consume: (options: Record<string, unknown>) =>
+            Promise.resolve(
+              fakeMedia({ ...options, kind: 'video', type: consumerType }),
+            ),
+        }),
+      ),
+  };
+}
+
+describe('VoiceService', () => {
+  let service: VoiceService;
+
+  const rtpParameters = {} as RtpParameters;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    consumerType = 'simulcast';
+    produced = [];
+    const workerPool = {
+      onWorkerDied: jest.fn(),
+      createRouter: () => Promise.resolve(fakeRouter()),
+    } as unknown as WorkerPoolService;
+
+    service = new VoiceService(
+      workerPool,
+      new ConfigService({
+        voice: {
+          mediasoup: {
+            codecs: ['opus', 'vp8'],
+            listenIp: '127.0.0.1',
+            initialAvailableOutgoingBitrate: 1000000,
+            maxIncomingBitrate: 1500000,
+            maxOutgoingBitrate: 1500000,
+          },
+          speakers: {
+            audioLevelThreshold: -70,
+            audioLevelIntervalMs: 800,
+            maxEntries: 5,
+            activeSpeakerIntervalMs: 300,
+          },
+          turn: { urls: [], iceTransportPolicy: 'all' },
+        },
+      }),
+    );
+
+    await service.joinVoiceChannel('geral', 'alice', 'Alice');
+    await service.joinVoiceChannel('geral', 'bob', 'Bob');
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+  });
+
+  async function sendTransport(userId: string) {
+    const { id } = await service.createWebRtcTransport('geral', userId, 'send');
+    return id;
+  }
+
+  describe('produce', () => {
+    it('defaults to the mic for audio and the camera for video', async () => {
+      const transportId = await sendTransport('alice');
+
+      const audio = await service.produce(
+        'geral',
+        'alice',
+        transportId,
+        'audio',
+        rtpParameters,
+      );
+      const video = await service.produce(
+        'geral',
+        'alice',
+        transportId,
+        'video',
+        rtpParameters,
+      );
+
+      expect(audio.source).toBe('mic');
+      expect(video.source).toBe('camera');
+      expect(service.getProducersForUser('geral', 'bob')).toEqual([
+        expect.objectContaining({ userId: 'alice', source: 'mic' }),
+        expect.objectContaining({ userId: 'alice', source: 'camera' }),
+      ]);
+    });
+
+    it('rejects unknown sources and sources of the other kind', async () => {
+      const transportId = await sendTransport('alice');
+
+      await expect(
+        service.produce(
+          'geral',
+          'alice',
+          transportId,
+          'video',
+          rtpParameters,
+          'window' as never,
+        ),
+      ).rejects.toThrow('Invalid producer source');
+      await expect(
+        service.produce(
+          'geral',
+          'alice',
+          transportId,
+          'audio',
+          rtpParameters,
+          'screen',
+        ),
+      ).rejects.toThrow('Invalid producer source');
+    });
+
+    it('allows one producer per source until it is closed', async () => {
+      const transportId = await sendTransport('alice');
+      const camera = await service.produce(
+        'geral',
+        'alice',
+        transportId,
+        'video',
+        rtpParameters,
+      );
+
+      await expect(
+        service.produce('geral', 'alice', transportId, 'video', rtpParameters),
+      ).rejects.toThrow('Already producing camera');
+      await expect(
+        service.produce(
+          'geral',
+          'alice',
+          transportId,
+          'video',
+          rtpParameters,
+          'screen',
+        ),
+      ).resolves.toMatchObject({ source: 'screen' });
+
+      service.closeProducer('geral', 'alice', camera.id);
+
+      await expect(
+        service.produce('geral', 'alice', transportId, 'video', rtpParameters),
+      ).resolves.toMatchObject({ source: 'camera' });
+    });
+
+    it('starts the mic paused for a muted user', async () => {
+      const transportId = await sendTransport('alice');
+      await service.toggleMute('geral', 'alice', true);
+
+      await service.produce(
+        'geral',
+        'alice',
+        transportId,
+        'audio',
+        rtpParameters,
+      );
+      await service.produce(
+        'geral',
+        'alice',
+        transportId,
+        'video',
+        rtpParameters,
+      );
+
+      expect(produced.map((p) => [p.appData, p.paused])).toEqual([
+        [{ source: 'mic', userId: 'alice' }, true],
+        [{ source: 'camera', userId: 'alice' }, false],
+      ]);
+    });
+  });
+
+  describe('consume', () => {
+    async function consumeScreen() {
+      const producer = await service.produce(
+        'geral',
+        'alice',
+        await sendTransport('alice'),
+        'video',
+        rtpParameters,
+        'screen',
+      );
+      await service.createWebRtcTransport('geral', 'bob', 'recv');
+      return service.consume('geral', 'bob', producer.id, {});
+    }
+
+    it('tells the consumer which source it receives', async () => {
+      const consumer = await consumeScreen();
+
+      expect(consumer).toMatchObject({ source: 'screen', type: 'simulcast' });
+    });
+
+    it('selects the simulcast layers of a consumer', async () => {
+      const consumer = await consumeScreen();
+
+      await expect(
+        service.setConsumerPreferredLayers('geral', 'bob', consumer.id, 0, 1),
+      ).resolves.toEqual({
+        consumerId: consumer.id,
+        preferredLayers: { spatialLayer: 0, temporalLayer: 1 },
+      });
+    });
+
+    it('refuses layers for a consumer without simulcast or SVC', async () => {
+      consumerType = 'simple';
+      const consumer = await consumeScreen();
+
+      await expect(
+        service.setConsumerPreferredLayers('geral', 'bob', consumer.id, 0),
+      ).rejects.toThrow('Consumer has no layers');
+      await expect(
+        service.setConsumerPreferredLayers('geral', 'alice', consumer.id, 0),
+      ).rejects.toThrow('Consumer not found');
+    });
+  });
+});
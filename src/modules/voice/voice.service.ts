@@ -1,447 +1,1228 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
-import * as mediasoup from 'mediasoup';
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ActiveSpeakerObserver } from 'node_modules/mediasoup/node/lib/ActiveSpeakerObserverTypes';
+import { AudioLevelObserver } from 'node_modules/mediasoup/node/lib/AudioLevelObserverTypes';
 import { Consumer } from 'node_modules/mediasoup/node/lib/ConsumerTypes';
 import { Producer } from 'node_modules/mediasoup/node/lib/ProducerTypes';
 import { Router } from 'node_modules/mediasoup/node/lib/RouterTypes';
-import { WebRtcTransport } from 'node_modules/mediasoup/node/lib/WebRtcTransportTypes';
-import { Worker } from 'node_modules/mediasoup/node/lib/WorkerTypes';
+import {
+  RouterRtpCodecCapability,
+  RtpCapabilities,
+  RtpParameters,
+} from 'node_modules/mediasoup/node/lib/rtpParametersTypes';
+import {
+  DtlsParameters,
+  DtlsState,
+  IceState,
+  WebRtcTransport,
+} from 'node_modules/mediasoup/node/lib/WebRtcTransportTypes';
+import {
+  ConnectionQuality,
+  QualityThresholds,
+  rateConnection,
+  toStreamStats,
+  toTransportStats,
+  TransportStats,
+  VoiceUserStats,
+} from './voice-stats';
+import { WorkerPoolService } from './worker-pool.service';
+import { MediasoupConfig, TurnConfig } from '../../config/configuration';
+import { VoiceCodec } from '../../config/env.validation';
+
+/** Origem de cada producer: um usuário tem no máximo um de cada. */
+export type ProducerSource = 'mic' | 'camera' | 'screen';
+
+export const PRODUCER_SOURCES: ProducerSource[] = ['mic', 'camera', 'screen'];
+
+interface ProducerAppData {
+  source: ProducerSource;
+  userId: string;
+  [key: string]: unknown;
+}
 
 interface VoiceUser {
-    userId: string;
-    userName: string;
-    producerTransport?: WebRtcTransport;
-    consumerTransport?: WebRtcTransport;
-    producer?: Producer;
-    consumers: Map<string, Consumer>;
-    isMuted: boolean;
+  userId: string;
+  userName: string;
+  producerTransport?: WebRtcTransport;
+  consumerTransport?: WebRtcTransport;
+  producers: Map<ProducerSource, Producer<ProducerAppData>>;
+  consumers: Map<string, Consumer>;
+  isMuted: boolean;
+  /** Mutado por um moderador: só outro moderador pode desmutar. */
+  serverMuted: boolean;
+  /** Última coleta de `getStats()`; vazio até a primeira rodada. */
+  stats?: VoiceUserStats;
+}
+
+interface RoomMedia {
+  router: Router;
+  audioLevelObserver: AudioLevelObserver;
+  activeSpeakerObserver: ActiveSpeakerObserver;
+}
+
+interface Throttle {
+  lastAt: number;
+  timer?: NodeJS.Timeout;
+  pending?: () => void;
+}
+
+interface VoiceRoom extends RoomMedia {
+  roomId: string;
+  users: Map<string, VoiceUser>;
+  throttles: Record<'levels' | 'speaker', Throttle>;
+  /** Canal trancado: ninguém novo entra, exceto moderadores. */
+  locked: boolean;
+}
+
+export interface AudioLevel {
+  userId: string;
+  producerId: string;
+  /** dBov, de -127 (silêncio) a 0. */
+  volume: number;
+}
+
+export interface VoiceProducerInfo {
+  userId: string;
+  userName: string;
+  producerId: string;
+  kind: 'audio' | 'video';
+  source: ProducerSource;
+}
+
+export interface ActiveSpeaker {
+  userId: string;
+  producerId: string;
+}
+
+/** Codecs que `voice.mediasoup.codecs` pode habilitar no Router. */
+const MEDIA_CODECS: Record<VoiceCodec, RouterRtpCodecCapability> = {
+  opus: {
+    kind: 'audio',
+    mimeType: 'audio/opus',
+    clockRate: 48000,
+    channels: 2,
+  },
+  vp8: {
+    kind: 'video',
+    mimeType: 'video/VP8',
+    clockRate: 90000,
+    parameters: { 'x-google-start-bitrate': 1000 },
+  },
+  vp9: {
+    kind: 'video',
+    mimeType: 'video/VP9',
+    clockRate: 90000,
+    parameters: { 'profile-id': 2, 'x-google-start-bitrate': 1000 },
+  },
+  h264: {
+    kind: 'video',
+    mimeType: 'video/h264',
+    clockRate: 90000,
+    parameters: {
+      'packetization-mode': 1,
+      'profile-level-id': '42e01f',
+      'level-asymmetry-allowed': 1,
+      'x-google-start-bitrate': 1000,
+    },
+  },
+};
+
+const SOURCE_KIND: Record<ProducerSource, 'audio' | 'video'> = {
+  mic: 'audio',
+  camera: 'video',
+  screen: 'video',
+};
+
+export interface TransportStateChange {
+  transportId: string;
+  direction: 'send' | 'recv';
+  iceState: IceState;
+  dtlsState: DtlsState;
+  /** ICE caiu ou DTLS falhou: o cliente deve pedir `restart_ice`. */
+  needsIceRestart: boolean;
 }
 
-interface VoiceRoom {
-    roomId: string;
-    router: Router;
-    users: Map<string, VoiceUser>;
+export interface VoiceRoomStats {
+  roomId: string;
+  intervalMs: number;
+  users: VoiceUserStats[];
 }
 
 @Injectable()
-export class VoiceService implements OnModuleInit {
-    private readonly logger = new Logger(VoiceService.name);
-    private worker: Worker;
-    private voiceRooms = new Map<string, VoiceRoom>();
-
-    async onModuleInit() {
-        await this.createWorker();
-    }
-
-    /**
-     * Fase 1: Criar Worker do mediasoup
-     */
-    private async createWorker() {
-        this.logger.log('🎙️ Iniciando mediasoup Worker...');
-
-        this.worker = await mediasoup.createWorker({
-            logLevel: 'warn',
-            logTags: [
-                'info',
-                'ice',
-                'dtls',
-                'rtp',
-                'srtp',
-                'rtcp',
-            ],
-            rtcMinPort: 10000,
-            rtcMaxPort: 10100,
-        });
-
-        this.worker.on('died', () => {
-            this.logger.error('❌ mediasoup Worker morreu, saindo em 2s...');
-            setTimeout(() => process.exit(1), 2000);
-        });
-
-        this.logger.log('✅ mediasoup Worker criado com sucesso');
-    }
-
-    /**
-     * Fase 2: Criar ou reutilizar Router para uma sala
-     */
-    async getOrCreateRouter(roomId: string): Promise<Router> {
-        let voiceRoom = this.voiceRooms.get(roomId);
-
-        if (!voiceRoom) {
-            this.logger.log(`📡 Criando Router para sala: ${roomId}`);
-
-            const router = await this.worker.createRouter({
-                mediaCodecs: [
-                    {
-                        kind: 'audio',
-                        mimeType: 'audio/opus',
-                        clockRate: 48000,
-                        channels: 2,
-                    },
-                ],
-            });
-
-            voiceRoom = {
-                roomId,
-                router,
-                users: new Map(),
-            };
-
-            this.voiceRooms.set(roomId, voiceRoom);
-            this.logger.log(`✅ Router criado para sala: ${roomId}`);
-        }
+export class VoiceService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(VoiceService.name);
+  private voiceRooms = new Map<string, VoiceRoom>();
+  private roomResetListeners: ((roomId: string) => void)[] = [];
+  private audioLevelListeners: ((
+    roomId: string,
+    levels: AudioLevel[],
+  ) => void)[] = [];
+  private activeSpeakerListeners: ((
+    roomId: string,
+    speaker: ActiveSpeaker,
+  ) => void)[] = [];
+  private producerListeners: ((
+    roomId: string,
+    producer: VoiceProducerInfo,
+  ) => void)[] = [];
+  private qualityListeners: ((
+    roomId: string,
+    userId: string,
+    quality: ConnectionQuality,
+  ) => void)[] = [];
+  private transportStateListeners: ((
+    roomId: string,
+    userId: string,
+    change: TransportStateChange,
+  ) => void)[] = [];
+  private statsTimer?: NodeJS.Timeout;
+  private collectingStats = false;
+
+  constructor(
+    private readonly workerPool: WorkerPoolService,
+    private readonly configService: ConfigService,
+  ) {
+    this.workerPool.onWorkerDied((routers) => this.recreateRooms(routers));
+  }
+
+  onModuleInit() {
+    this.statsTimer = setInterval(
+      () => void this.collectStats(),
+      this.configService.getOrThrow<number>('voice.stats.intervalMs'),
+    );
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.statsTimer);
+    this.voiceRooms.forEach((voiceRoom) => this.clearThrottles(voiceRoom));
+  }
+
+  /**
+   * Chamado quando a sala perdeu o Router com a queda do worker: os
+   * clientes precisam entrar de novo e refazer transports, producers e
+   * consumers.
+   */
+  onRoomReset(listener: (roomId: string) => void) {
+    this.roomResetListeners.push(listener);
+  }
+
+  /**
+   * Volumes dos microfones acima do limiar (lista vazia = silêncio), no
+   * máximo um aviso por `voice.speakers.throttleMs` por sala.
+   */
+  onAudioLevels(listener: (roomId: string, levels: AudioLevel[]) => void) {
+    this.audioLevelListeners.push(listener);
+  }
+
+  /** Cada producer novo, para quem precisa acompanhar a sala (ex.: gravação). */
+  onProducer(listener: (roomId: string, producer: VoiceProducerInfo) => void) {
+    this.producerListeners.push(listener);
+  }
+
+  /** Quem está falando agora na sala, com o mesmo throttle dos volumes. */
+  onActiveSpeaker(listener: (roomId: string, speaker: ActiveSpeaker) => void) {
+    this.activeSpeakerListeners.push(listener);
+  }
+
+  /**
+   * Mudança de nível (good/fair/poor) na conexão de um usuário, avaliada
+   * a cada coleta de stats. A primeira coleta só avisa se não for 'good'.
+   */
+  onConnectionQuality(
+    listener: (
+      roomId: string,
+      userId: string,
+      quality: ConnectionQuality,
+    ) => void,
+  ) {
+    this.qualityListeners.push(listener);
+  }
+
+  /** Mudanças de ICE/DTLS nos transports de um usuário. */
+  onTransportStateChange(
+    listener: (
+      roomId: string,
+      userId: string,
+      change: TransportStateChange,
+    ) => void,
+  ) {
+    this.transportStateListeners.push(listener);
+  }
+
+  /**
+   * Fase 2: Criar ou reutilizar Router para uma sala
+   */
+  async getOrCreateRouter(roomId: string): Promise<Router> {
+    let voiceRoom = this.voiceRooms.get(roomId);
+
+    if (!voiceRoom) {
+      this.logger.log(`📡 Criando Router para sala: ${roomId}`);
+
+      voiceRoom = {
+        roomId,
+        ...(await this.createRoomMedia()),
+        users: new Map(),
+        throttles: { levels: { lastAt: 0 }, speaker: { lastAt: 0 } },
+        locked: false,
+      };
+
+      this.voiceRooms.set(roomId, voiceRoom);
+      this.observeSpeakers(voiceRoom);
+      this.logger.log(`✅ Router criado para sala: ${roomId}`);
+    }
 
-        return voiceRoom.router;
+    return voiceRoom.router;
+  }
+
+  /**
+   * Recria as salas cujos Routers morreram com o worker. Transports,
+   * producers e consumers morreram junto; os usuários continuam na sala.
+   */
+  private async recreateRooms(deadRouters: Router[]) {
+    for (const voiceRoom of this.voiceRooms.values()) {
+      if (!deadRouters.includes(voiceRoom.router)) continue;
+
+      for (const user of voiceRoom.users.values()) {
+        user.producerTransport = undefined;
+        user.consumerTransport = undefined;
+        user.producers.clear();
+        user.consumers.clear();
+      }
+
+      this.clearThrottles(voiceRoom);
+
+      try {
+        Object.assign(voiceRoom, await this.createRoomMedia());
+        this.observeSpeakers(voiceRoom);
+        this.logger.log(`♻️ Sala de voz ${voiceRoom.roomId} recriada`);
+      } catch (error) {
+        // Sem Router a sala some; ao entrar de novo ela é recriada
+        this.logger.error(
+          `Erro ao recriar Router da sala ${voiceRoom.roomId}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        this.voiceRooms.delete(voiceRoom.roomId);
+      }
+
+      this.roomResetListeners.forEach((listener) => listener(voiceRoom.roomId));
+    }
+  }
+
+  /**
+   * Router da sala e os observers de áudio ligados a ele
+   */
+  private async createRoomMedia(): Promise<RoomMedia> {
+    const { codecs } =
+      this.configService.getOrThrow<MediasoupConfig>('voice.mediasoup');
+    const router = await this.workerPool.createRouter({
+      mediaCodecs: codecs.map((codec) => MEDIA_CODECS[codec]),
+    });
+
+    const audioLevelObserver = await router.createAudioLevelObserver({
+      threshold: this.configService.getOrThrow<number>(
+        'voice.speakers.audioLevelThreshold',
+      ),
+      interval: this.configService.getOrThrow<number>(
+        'voice.speakers.audioLevelIntervalMs',
+      ),
+      maxEntries: this.configService.getOrThrow<number>(
+        'voice.speakers.maxEntries',
+      ),
+    });
+    const activeSpeakerObserver = await router.createActiveSpeakerObserver({
+      interval: this.configService.getOrThrow<number>(
+        'voice.speakers.activeSpeakerIntervalMs',
+      ),
+    });
+
+    return { router, audioLevelObserver, activeSpeakerObserver };
+  }
+
+  private observeSpeakers(voiceRoom: VoiceRoom) {
+    const { roomId } = voiceRoom;
+
+    voiceRoom.audioLevelObserver.on('volumes', (volumes) => {
+      const levels = volumes.map(({ producer, volume }) => ({
+        userId: (producer.appData as ProducerAppData).userId,
+        producerId: producer.id,
+        volume,
+      }));
+      this.throttle(voiceRoom, 'levels', () =>
+        this.audioLevelListeners.forEach((listener) =>
+          listener(roomId, levels),
+        ),
+      );
+    });
+
+    voiceRoom.audioLevelObserver.on('silence', () => {
+      this.throttle(voiceRoom, 'levels', () =>
+        this.audioLevelListeners.forEach((listener) => listener(roomId, [])),
+      );
+    });
+
+    voiceRoom.activeSpeakerObserver.on('dominantspeaker', ({ producer }) => {
+      const speaker = {
+        userId: (producer.appData as ProducerAppData).userId,
+        producerId: producer.id,
+      };
+      this.throttle(voiceRoom, 'speaker', () =>
+        this.activeSpeakerListeners.forEach((listener) =>
+          listener(roomId, speaker),
+        ),
+      );
+    });
+  }
+
+  /**
+   * Emite na hora se a janela já passou; senão guarda só o valor mais
+   * recente e emite no fim da janela.
+   */
+  private throttle(
+    voiceRoom: VoiceRoom,
+    key: 'levels' | 'speaker',
+    emit: () => void,
+  ) {
+    const state = voiceRoom.throttles[key];
+    const wait =
+      state.lastAt +
+      this.configService.getOrThrow<number>('voice.speakers.throttleMs') -
+      Date.now();
+
+    if (wait <= 0 && !state.timer) {
+      state.lastAt = Date.now();
+      emit();
+      return;
     }
 
-    /**
-     * Obter RTP Capabilities do Router
-     */
-    async getRouterRtpCapabilities(roomId: string) {
-        const router = await this.getOrCreateRouter(roomId);
-        return router.rtpCapabilities;
+    state.pending = emit;
+    state.timer ??= setTimeout(
+      () => {
+        const pending = state.pending;
+        state.timer = undefined;
+        state.pending = undefined;
+        state.lastAt = Date.now();
+        pending?.();
+      },
+      Math.max(wait, 0),
+    );
+  }
+
+  private clearThrottles(voiceRoom: VoiceRoom) {
+    for (const state of Object.values(voiceRoom.throttles)) {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+      state.pending = undefined;
+    }
+  }
+
+  /**
+   * Obter RTP Capabilities do Router. Só salas que já existem: Routers são
+   * criados ao entrar no canal e fechados quando o último usuário sai.
+   */
+  getRouterRtpCapabilities(roomId: string) {
+    const voiceRoom = this.voiceRooms.get(roomId);
+    if (!voiceRoom) {
+      throw new Error('Voice room not found');
     }
 
-    /**
-     * Fase 2: Criar WebRtcTransport
-     */
-    async createWebRtcTransport(roomId: string, userId: string, direction: 'send' | 'recv') {
-        const router = await this.getOrCreateRouter(roomId);
-        const voiceRoom = this.voiceRooms.get(roomId);
+    return voiceRoom.router.rtpCapabilities;
+  }
+
+  /**
+   * Fase 2: Criar WebRtcTransport
+   */
+  async createWebRtcTransport(
+    roomId: string,
+    userId: string,
+    direction: 'send' | 'recv',
+  ) {
+    const voiceRoom = this.voiceRooms.get(roomId);
+
+    if (!voiceRoom) {
+      throw new Error('Voice room not found');
+    }
 
-        if (!voiceRoom) {
-            throw new Error('Voice room not found');
-        }
+    // Antes de criar: um transport sem dono ficaria com a porta RTC presa
+    if (!voiceRoom.users.has(userId)) {
+      throw new Error('User not found');
+    }
 
-        const transport = await router.createWebRtcTransport({
-            listenIps: [
-                {
-                    ip: '0.0.0.0',
-                    announcedIp: process.env.MEDIASOUP_ANNOUNCED_IP || '127.0.0.1',
-                },
-            ],
-            enableUdp: true,
-            enableTcp: true,
-            preferUdp: true,
-        });
-
-        this.logger.log(`🚀 WebRtcTransport criado para usuário ${userId} na sala ${roomId}`);
-
-        const transportData = {
-            id: transport.id,
-            iceParameters: transport.iceParameters,
-            iceCandidates: transport.iceCandidates,
-            dtlsParameters: transport.dtlsParameters,
-            transport,
-        };
-
-        this.setUserTransport(roomId, userId, transport, direction);
-
-        return transportData;
-    }
-
-    /**
-     * Conectar WebRtcTransport
-     */
-    async connectWebRtcTransport(
-        roomId: string,
-        userId: string,
-        transportId: string,
-        dtlsParameters: any,
-    ) {
-        const voiceRoom = this.voiceRooms.get(roomId);
-        if (!voiceRoom) {
-            throw new Error('Voice room not found');
-        }
+    const mediasoupConfig =
+      this.configService.getOrThrow<MediasoupConfig>('voice.mediasoup');
+    const transport = await voiceRoom.router.createWebRtcTransport({
+      listenIps: [
+        {
+          ip: mediasoupConfig.listenIp,
+          announcedIp: mediasoupConfig.announcedIp,
+        },
+      ],
+      enableUdp: true,
+      enableTcp: true,
+      preferUdp: true,
+      initialAvailableOutgoingBitrate:
+        mediasoupConfig.initialAvailableOutgoingBitrate,
+    });
+
+    await transport.setMaxIncomingBitrate(mediasoupConfig.maxIncomingBitrate);
+    await transport.setMaxOutgoingBitrate(mediasoupConfig.maxOutgoingBitrate);
+
+    this.logger.log(
+      `🚀 WebRtcTransport criado para usuário ${userId} na sala ${roomId}`,
+    );
+
+    this.watchTransport(roomId, userId, transport, direction);
+
+    const transportData = {
+      id: transport.id,
+      iceParameters: transport.iceParameters,
+      iceCandidates: transport.iceCandidates,
+      dtlsParameters: transport.dtlsParameters,
+      ...this.getIceServers(),
+      transport,
+    };
+
+    this.setUserTransport(roomId, userId, transport, direction);
+
+    return transportData;
+  }
+
+  /**
+   * Conectar WebRtcTransport
+   */
+  async connectWebRtcTransport(
+    roomId: string,
+    userId: string,
+    transportId: string,
+    dtlsParameters: DtlsParameters,
+  ) {
+    const voiceRoom = this.voiceRooms.get(roomId);
+    if (!voiceRoom) {
+      throw new Error('Voice room not found');
+    }
 
-        const user = voiceRoom.users.get(userId);
-        if (!user) {
-            throw new Error('User not found');
-        }
+    const user = voiceRoom.users.get(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
 
-        const transport =
-            user.producerTransport?.id === transportId
-                ? user.producerTransport
-                : user.consumerTransport?.id === transportId
-                    ? user.consumerTransport
-                    : null;
-
-        if (transport) {
-            await transport.connect({ dtlsParameters });
-            this.logger.log(`🔗 Transport conectado: ${transportId}`);
-            return;
-        }
+    const transport = this.findTransport(user, transportId);
 
-        throw new Error('Transport not found');
-    }
-
-    /**
-     * Fase 2: Produzir áudio
-     */
-    async produce(
-        roomId: string,
-        userId: string,
-        transportId: string,
-        kind: 'audio' | 'video',
-        rtpParameters: any,
-    ) {
-        const voiceRoom = this.voiceRooms.get(roomId);
-        if (!voiceRoom) {
-            throw new Error('Voice room not found');
-        }
+    if (transport) {
+      await transport.connect({ dtlsParameters });
+      this.logger.log(`🔗 Transport conectado: ${transportId}`);
+      return;
+    }
 
-        const user = voiceRoom.users.get(userId);
-        if (!user || !user.producerTransport) {
-            throw new Error('User or transport not found');
-        }
+    throw new Error('Transport not found');
+  }
+
+  /**
+   * Gerar novos parâmetros ICE para um transport (ex.: o cliente trocou de
+   * rede). O cliente repassa os parâmetros para `transport.restartIce()`.
+   */
+  async restartIce(roomId: string, userId: string, transportId: string) {
+    const user = this.voiceRooms.get(roomId)?.users.get(userId);
+    if (!user) {
+      throw new Error('User not found in voice room');
+    }
 
-        const producer = await user.producerTransport.produce({
-            kind,
-            rtpParameters,
-        });
+    const transport = this.findTransport(user, transportId);
+    if (!transport) {
+      throw new Error('Transport not found');
+    }
 
-        user.producer = producer;
+    const iceParameters = await transport.restartIce();
+    this.logger.log(
+      `🧊 ICE reiniciado no transport ${transportId} do usuário ${userId}`,
+    );
+
+    return { transportId, iceParameters };
+  }
+
+  /**
+   * Servidores TURN/STUN para o cliente usar no transport, quando a rede
+   * dele não alcança o servidor de mídia diretamente
+   */
+  private getIceServers() {
+    const { urls, username, credential, iceTransportPolicy } =
+      this.configService.getOrThrow<TurnConfig>('voice.turn');
+
+    return {
+      iceServers: urls.length ? [{ urls, username, credential }] : [],
+      iceTransportPolicy,
+    };
+  }
+
+  private findTransport(user: VoiceUser, transportId: string) {
+    return user.producerTransport?.id === transportId
+      ? user.producerTransport
+      : user.consumerTransport?.id === transportId
+        ? user.consumerTransport
+        : null;
+  }
+
+  /**
+   * Avisa quem se registrou em `onTransportStateChange` a cada mudança de
+   * ICE ou DTLS; sem isso uma troca de rede só aparece quando o áudio some.
+   */
+  private watchTransport(
+    roomId: string,
+    userId: string,
+    transport: WebRtcTransport,
+    direction: 'send' | 'recv',
+  ) {
+    const notify = () => {
+      const { iceState, dtlsState } = transport;
+      const needsIceRestart =
+        iceState === 'disconnected' || dtlsState === 'failed';
+
+      if (needsIceRestart) {
+        this.logger.warn(
+          `⚠️ Transport ${transport.id} de ${userId}: ICE ${iceState}, DTLS ${dtlsState}`,
+        );
+      }
+
+      const change = {
+        transportId: transport.id,
+        direction,
+        iceState,
+        dtlsState,
+        needsIceRestart,
+      };
+      this.transportStateListeners.forEach((listener) =>
+        listener(roomId, userId, change),
+      );
+    };
+
+    transport.on('icestatechange', notify);
+    transport.on('dtlsstatechange', notify);
+  }
+
+  /**
+   * Fase 2: Produzir áudio (mic) ou vídeo (câmera, tela). Sem `source`,
+   * áudio vira 'mic' e vídeo 'camera'.
+   */
+  async produce(
+    roomId: string,
+    userId: string,
+    transportId: string,
+    kind: 'audio' | 'video',
+    rtpParameters: RtpParameters,
+    source: ProducerSource = kind === 'audio' ? 'mic' : 'camera',
+  ) {
+    const voiceRoom = this.voiceRooms.get(roomId);
+    if (!voiceRoom) {
+      throw new Error('Voice room not found');
+    }
 
-        this.logger.log(`🎤 Producer criado para usuário ${userId} na sala ${roomId}`);
+    const user = voiceRoom.users.get(userId);
+    if (!user || !user.producerTransport) {
+      throw new Error('User or transport not found');
+    }
 
-        return {
-            id: producer.id,
-        };
+    if (!PRODUCER_SOURCES.includes(source) || SOURCE_KIND[source] !== kind) {
+      throw new Error('Invalid producer source');
     }
 
-    /**
-     * Fase 2: Consumir áudio de outro usuário
-     */
-    async consume(
-        roomId: string,
-        userId: string,
-        producerId: string,
-        rtpCapabilities: any,
-    ) {
-        const voiceRoom = this.voiceRooms.get(roomId);
-        if (!voiceRoom) {
-            throw new Error('Voice room not found');
-        }
+    if (user.producers.has(source)) {
+      throw new Error(`Already producing ${source}`);
+    }
 
-        const router = voiceRoom.router;
+    const producer = await user.producerTransport.produce<ProducerAppData>({
+      kind,
+      rtpParameters,
+      appData: { source, userId },
+      // Microfone de quem entrou mutado já nasce pausado
+      paused: source === 'mic' && user.isMuted,
+    });
+
+    user.producers.set(source, producer);
+
+    // Producers fechados saem dos observers automaticamente
+    if (kind === 'audio') {
+      await voiceRoom.audioLevelObserver.addProducer({
+        producerId: producer.id,
+      });
+      await voiceRoom.activeSpeakerObserver.addProducer({
+        producerId: producer.id,
+      });
+    }
+    producer.observer.once('close', () => {
+      if (user.producers.get(source) === producer) {
+        user.producers.delete(source);
+      }
+    });
+
+    this.logger.log(
+      `🎤 Producer ${source} criado para usuário ${userId} na sala ${roomId}`,
+    );
+
+    const info = this.toProducerInfo(user, producer);
+    this.producerListeners.forEach((listener) => listener(roomId, info));
+
+    return {
+      id: producer.id,
+      kind: producer.kind,
+      source,
+    };
+  }
+
+  /**
+   * Encerrar um producer próprio (ex.: desligar câmera ou parar de
+   * compartilhar a tela). Os consumers dele são fechados pelo mediasoup.
+   */
+  closeProducer(roomId: string, userId: string, producerId: string) {
+    const user = this.voiceRooms.get(roomId)?.users.get(userId);
+    if (!user) {
+      throw new Error('User not found in voice room');
+    }
 
-        if (!router.canConsume({ producerId, rtpCapabilities })) {
-            throw new Error('Cannot consume');
-        }
+    const producer = [...user.producers.values()].find(
+      (p) => p.id === producerId,
+    );
+    if (!producer) {
+      throw new Error('Producer not found');
+    }
 
-        const user = voiceRoom.users.get(userId);
-        if (!user || !user.consumerTransport) {
-            throw new Error('User or transport not found');
-        }
+    producer.close();
+    this.logger.log(
+      `⏹️ Producer ${producer.appData.source} encerrado para usuário ${userId}`,
+    );
+
+    return { producerId, source: producer.appData.source };
+  }
+
+  /**
+   * Fase 2: Consumir áudio de outro usuário
+   */
+  async consume(
+    roomId: string,
+    userId: string,
+    producerId: string,
+    rtpCapabilities: RtpCapabilities,
+  ) {
+    const voiceRoom = this.voiceRooms.get(roomId);
+    if (!voiceRoom) {
+      throw new Error('Voice room not found');
+    }
 
-        const consumer = await user.consumerTransport.consume({
-            producerId,
-            rtpCapabilities,
-            paused: true, // Iniciar pausado
-        });
+    const router = voiceRoom.router;
 
-        user.consumers.set(consumer.id, consumer);
+    if (!router.canConsume({ producerId, rtpCapabilities })) {
+      throw new Error('Cannot consume');
+    }
 
-        this.logger.log(`🔊 Consumer criado para usuário ${userId} consumir producer ${producerId}`);
+    const user = voiceRoom.users.get(userId);
+    if (!user || !user.consumerTransport) {
+      throw new Error('User or transport not found');
+    }
 
-        return {
-            id: consumer.id,
-            producerId: consumer.producerId,
-            kind: consumer.kind,
-            rtpParameters: consumer.rtpParameters,
-        };
+    const source = this.findProducer(voiceRoom, producerId)?.producer.appData
+      .source;
+
+    const consumer = await user.consumerTransport.consume({
+      producerId,
+      rtpCapabilities,
+      paused: true, // Iniciar pausado
+      appData: { source },
+    });
+
+    user.consumers.set(consumer.id, consumer);
+    consumer.observer.once('close', () => user.consumers.delete(consumer.id));
+
+    this.logger.log(
+      `🔊 Consumer criado para usuário ${userId} consumir producer ${producerId}`,
+    );
+
+    return {
+      id: consumer.id,
+      producerId: consumer.producerId,
+      kind: consumer.kind,
+      type: consumer.type,
+      source,
+      rtpParameters: consumer.rtpParameters,
+    };
+  }
+
+  /**
+   * Escolher a camada de simulcast/SVC recebida por um consumer de vídeo
+   * (ex.: a menor para miniaturas, a maior para quem está em destaque).
+   */
+  async setConsumerPreferredLayers(
+    roomId: string,
+    userId: string,
+    consumerId: string,
+    spatialLayer: number,
+    temporalLayer?: number,
+  ) {
+    const consumer = this.voiceRooms
+      .get(roomId)
+      ?.users.get(userId)
+      ?.consumers.get(consumerId);
+    if (!consumer) {
+      throw new Error('Consumer not found');
     }
 
-    /**
-     * Retomar consumer
-     */
-    async resumeConsumer(roomId: string, userId: string, consumerId: string) {
-        const voiceRoom = this.voiceRooms.get(roomId);
-        if (!voiceRoom) {
-            throw new Error('Voice room not found');
-        }
+    if (consumer.type !== 'simulcast' && consumer.type !== 'svc') {
+      throw new Error('Consumer has no layers');
+    }
 
-        const user = voiceRoom.users.get(userId);
-        if (!user) {
-            throw new Error('User not found');
-        }
+    await consumer.setPreferredLayers({ spatialLayer, temporalLayer });
+    this.logger.log(
+      `🎚️ Camadas do consumer ${consumerId}: ${spatialLayer}/${temporalLayer ?? '-'}`,
+    );
+
+    return {
+      consumerId,
+      preferredLayers: consumer.preferredLayers,
+    };
+  }
+
+  /**
+   * Retomar consumer
+   */
+  async resumeConsumer(roomId: string, userId: string, consumerId: string) {
+    const voiceRoom = this.voiceRooms.get(roomId);
+    if (!voiceRoom) {
+      throw new Error('Voice room not found');
+    }
 
-        const consumer = user.consumers.get(consumerId);
-        if (!consumer) {
-            throw new Error('Consumer not found');
-        }
+    const user = voiceRoom.users.get(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
 
-        await consumer.resume();
-        this.logger.log(`▶️ Consumer retomado: ${consumerId}`);
+    const consumer = user.consumers.get(consumerId);
+    if (!consumer) {
+      throw new Error('Consumer not found');
     }
 
-    /**
-     * Adicionar usuário ao canal de voz
-     */
-    async joinVoiceChannel(roomId: string, userId: string, userName: string) {
-        const router = await this.getOrCreateRouter(roomId);
-        const voiceRoom = this.voiceRooms.get(roomId);
+    await consumer.resume();
+    this.logger.log(`▶️ Consumer retomado: ${consumerId}`);
+  }
+
+  /**
+   * Adicionar usuário ao canal de voz. Com o canal trancado só entra quem
+   * tiver `bypassLock` (moderadores) ou já estiver na sala (reconexão).
+   */
+  async joinVoiceChannel(
+    roomId: string,
+    userId: string,
+    userName: string,
+    bypassLock = false,
+  ) {
+    const existing = this.voiceRooms.get(roomId);
+    if (existing?.locked && !bypassLock && !existing.users.has(userId)) {
+      throw new Error('Voice channel is locked');
+    }
 
-        if (!voiceRoom) {
-            throw new Error('Voice room not found');
-        }
+    await this.getOrCreateRouter(roomId);
+    const voiceRoom = this.voiceRooms.get(roomId);
 
-        if (!voiceRoom.users.has(userId)) {
-            voiceRoom.users.set(userId, {
-                userId,
-                userName,
-                producerTransport: undefined,
-                consumerTransport: undefined,
-                consumers: new Map(),
-                isMuted: false,
-            });
-
-            this.logger.log(`👤 Usuário ${userName} (${userId}) entrou no canal de voz: ${roomId}`);
-        }
+    if (!voiceRoom) {
+      throw new Error('Voice room not found');
+    }
 
-        return {
-            users: Array.from(voiceRoom.users.values()).map(u => ({
-                userId: u.userId,
-                userName: u.userName,
-                isMuted: u.isMuted,
-                hasProducer: !!u.producer,
-            })),
-        };
-    }
-
-    /**
-     * Remover usuário do canal de voz
-     */
-    async leaveVoiceChannel(roomId: string, userId: string) {
-        const voiceRoom = this.voiceRooms.get(roomId);
-        if (!voiceRoom) {
-            return;
-        }
+    if (!voiceRoom.users.has(userId)) {
+      voiceRoom.users.set(userId, {
+        userId,
+        userName,
+        producerTransport: undefined,
+        consumerTransport: undefined,
+        producers: new Map(),
+        consumers: new Map(),
+        isMuted: false,
+        serverMuted: false,
+      });
+
+      this.logger.log(
+        `👤 Usuário ${userName} (${userId}) entrou no canal de voz: ${roomId}`,
+      );
+    }
 
-        const user = voiceRoom.users.get(userId);
-        if (user) {
-            // Fechar producer
-            if (user.producer) {
-                user.producer.close();
-            }
+    return {
+      users: this.getVoiceUsers(roomId),
+    };
+  }
+
+  /**
+   * Remover usuário do canal de voz
+   */
+  leaveVoiceChannel(roomId: string, userId: string) {
+    const voiceRoom = this.voiceRooms.get(roomId);
+    if (!voiceRoom) {
+      return;
+    }
 
-            // Fechar consumers
-            for (const consumer of user.consumers.values()) {
-                consumer.close();
-            }
+    const user = voiceRoom.users.get(userId);
+    if (user) {
+      // Fechar producers
+      for (const producer of user.producers.values()) {
+        producer.close();
+      }
+
+      // Fechar consumers
+      for (const consumer of user.consumers.values()) {
+        consumer.close();
+      }
+
+      // Fechar transport
+      if (user.producerTransport) {
+        user.producerTransport.close();
+      }
+
+      if (user.consumerTransport) {
+        user.consumerTransport.close();
+      }
+
+      voiceRoom.users.delete(userId);
+      this.logger.log(`👋 Usuário ${userId} saiu do canal de voz: ${roomId}`);
+    }
 
-            // Fechar transport
-            if (user.producerTransport) {
-                user.producerTransport.close();
-            }
+    // Se a sala ficou vazia, fechar o router
+    if (voiceRoom.users.size === 0) {
+      this.clearThrottles(voiceRoom);
+      voiceRoom.router.close();
+      this.voiceRooms.delete(roomId);
+      this.logger.log(`🗑️ Sala de voz ${roomId} removida (vazia)`);
+    }
+  }
+
+  /**
+   * Toggle mute/unmute
+   */
+  async toggleMute(roomId: string, userId: string, isMuted: boolean) {
+    const voiceRoom = this.voiceRooms.get(roomId);
+    if (!voiceRoom) {
+      throw new Error('Voice room not found');
+    }
 
-            if (user.consumerTransport) {
-                user.consumerTransport.close();
-            }
+    const user = voiceRoom.users.get(userId);
+    if (!user) {
+      throw new Error('User not found in voice room');
+    }
 
-            voiceRoom.users.delete(userId);
-            this.logger.log(`👋 Usuário ${userId} saiu do canal de voz: ${roomId}`);
-        }
+    if (!isMuted && user.serverMuted) {
+      throw new Error('Muted by a moderator');
+    }
 
-        // Se a sala ficou vazia, fechar o router
-        if (voiceRoom.users.size === 0) {
-            voiceRoom.router.close();
-            this.voiceRooms.delete(roomId);
-            this.logger.log(`🗑️ Sala de voz ${roomId} removida (vazia)`);
-        }
+    await this.applyMute(user, isMuted);
+
+    this.logger.log(
+      `🔇 Usuário ${userId} ${isMuted ? 'mutado' : 'desmutado'} na sala ${roomId}`,
+    );
+
+    return { isMuted };
+  }
+
+  /**
+   * Moderação: pausa (ou libera) o microfone de outro usuário no servidor.
+   * Ao liberar, o usuário continua mutado até desmutar por conta própria.
+   */
+  async setServerMute(roomId: string, userId: string, muted: boolean) {
+    const user = this.voiceRooms.get(roomId)?.users.get(userId);
+    if (!user) {
+      throw new Error('User not found in voice room');
     }
 
-    /**
-     * Toggle mute/unmute
-     */
-    async toggleMute(roomId: string, userId: string, isMuted: boolean) {
-        const voiceRoom = this.voiceRooms.get(roomId);
-        if (!voiceRoom) {
-            throw new Error('Voice room not found');
-        }
+    user.serverMuted = muted;
+    if (muted) {
+      await this.applyMute(user, true);
+    }
 
-        const user = voiceRoom.users.get(userId);
-        if (!user) {
-            throw new Error('User not found in voice room');
-        }
+    this.logger.log(
+      `🛡️ Usuário ${userId} ${muted ? 'mutado' : 'liberado'} por moderador na sala ${roomId}`,
+    );
 
-        user.isMuted = isMuted;
+    return { isMuted: user.isMuted, serverMuted: muted };
+  }
 
-        if (user.producer) {
-            if (isMuted) {
-                await user.producer.pause();
-            } else {
-                await user.producer.resume();
-            }
-        }
+  /**
+   * Moderação: tranca o canal contra novas entradas. Quem já está continua.
+   */
+  setLocked(roomId: string, locked: boolean) {
+    const voiceRoom = this.voiceRooms.get(roomId);
+    if (!voiceRoom) {
+      throw new Error('Voice room not found');
+    }
 
-        this.logger.log(`🔇 Usuário ${userId} ${isMuted ? 'mutado' : 'desmutado'} na sala ${roomId}`);
+    voiceRoom.locked = locked;
+    this.logger.log(
+      `${locked ? '🔒' : '🔓'} Canal de voz ${roomId} ${locked ? 'trancado' : 'destrancado'}`,
+    );
+
+    return { locked };
+  }
+
+  isLocked(roomId: string): boolean {
+    return this.voiceRooms.get(roomId)?.locked ?? false;
+  }
+
+  isInVoiceChannel(roomId: string, userId: string): boolean {
+    return this.voiceRooms.get(roomId)?.users.has(userId) ?? false;
+  }
+
+  /**
+   * Transports, producers e consumers que continuam vivos para o usuário,
+   * para o cliente retomar a sessão depois de reconectar o socket
+   */
+  getUserSession(roomId: string, userId: string) {
+    const user = this.voiceRooms.get(roomId)?.users.get(userId);
+    if (!user) {
+      return null;
+    }
 
-        return { isMuted };
+    return {
+      producerTransportId: user.producerTransport?.id,
+      consumerTransportId: user.consumerTransport?.id,
+      producers: [...user.producers.values()].map((p) => ({
+        id: p.id,
+        kind: p.kind,
+        source: p.appData.source,
+        paused: p.paused,
+      })),
+      consumers: [...user.consumers.values()].map((c) => ({
+        id: c.id,
+        producerId: c.producerId,
+        kind: c.kind,
+        paused: c.paused,
+      })),
+      isMuted: user.isMuted,
+    };
+  }
+
+  private async applyMute(user: VoiceUser, isMuted: boolean) {
+    user.isMuted = isMuted;
+
+    // Só o microfone; câmera e tela continuam
+    const mic = user.producers.get('mic');
+    if (mic) {
+      if (isMuted) {
+        await mic.pause();
+      } else {
+        await mic.resume();
+      }
+    }
+  }
+
+  /**
+   * Obter todos os producers de uma sala (exceto os do próprio usuário)
+   */
+  getProducersForUser(roomId: string, userId: string) {
+    return this.getProducers(roomId).filter((p) => p.userId !== userId);
+  }
+
+  /**
+   * Obter todos os producers de uma sala
+   */
+  getProducers(roomId: string): VoiceProducerInfo[] {
+    const voiceRoom = this.voiceRooms.get(roomId);
+    if (!voiceRoom) {
+      return [];
     }
 
-    /**
-     * Obter todos os producers de uma sala (exceto o do próprio usuário)
-     */
-    getProducersForUser(roomId: string, userId: string) {
-        const voiceRoom = this.voiceRooms.get(roomId);
-        if (!voiceRoom) {
-            return [];
-        }
+    const producers: VoiceProducerInfo[] = [];
+    for (const user of voiceRoom.users.values()) {
+      for (const producer of user.producers.values()) {
+        producers.push(this.toProducerInfo(user, producer));
+      }
+    }
+
+    return producers;
+  }
+
+  /**
+   * Router atual da sala, se ela existir (ex.: para gravação)
+   */
+  getRouter(roomId: string): Router | undefined {
+    return this.voiceRooms.get(roomId)?.router;
+  }
+
+  /**
+   * Última coleta de stats de cada usuário da sala (null se a sala não
+   * existe neste processo)
+   */
+  getRoomStats(roomId: string): VoiceRoomStats | null {
+    const voiceRoom = this.voiceRooms.get(roomId);
+    if (!voiceRoom) {
+      return null;
+    }
 
-        const producers: { userId: string; userName: string; producerId: string }[] = [];
-        for (const [uid, user] of voiceRoom.users.entries()) {
-            if (uid !== userId && user.producer) {
-                producers.push({
-                    userId: uid,
-                    userName: user.userName,
-                    producerId: user.producer.id,
-                });
+    return {
+      roomId,
+      intervalMs: this.configService.getOrThrow<number>(
+        'voice.stats.intervalMs',
+      ),
+      users: [...voiceRoom.users.values()].flatMap((u) =>
+        u.stats ? [u.stats] : [],
+      ),
+    };
+  }
+
+  /**
+   * Coleta periódica: uma rodada por vez, e um usuário com transport
+   * fechando no meio não interrompe os outros.
+   */
+  private async collectStats() {
+    if (this.collectingStats) return;
+    this.collectingStats = true;
+
+    const thresholds = this.configService.getOrThrow<
+      Record<'fair' | 'poor', QualityThresholds>
+    >('voice.stats.thresholds');
+
+    try {
+      for (const voiceRoom of this.voiceRooms.values()) {
+        for (const user of voiceRoom.users.values()) {
+          try {
+            const previous = user.stats?.quality.level ?? 'good';
+            user.stats = await this.collectUserStats(user, thresholds);
+
+            const { quality } = user.stats;
+            if (quality.level !== previous) {
+              this.qualityListeners.forEach((listener) =>
+                listener(voiceRoom.roomId, user.userId, quality),
+              );
             }
+          } catch (error) {
+            this.logger.warn(
+              `Erro ao coletar stats de ${user.userId}: ${error instanceof Error ? error.message : String(error)}`,
+            );
+          }
         }
+      }
+    } finally {
+      this.collectingStats = false;
+    }
+  }
+
+  private async collectUserStats(
+    user: VoiceUser,
+    thresholds: Record<'fair' | 'poor', QualityThresholds>,
+  ): Promise<VoiceUserStats> {
+    const transports: TransportStats[] = [];
+    for (const [direction, transport] of [
+      ['send', user.producerTransport],
+      ['recv', user.consumerTransport],
+    ] as const) {
+      if (!transport || transport.closed) continue;
+
+      const stats = toTransportStats(direction, await transport.getStats());
+      if (stats) transports.push(stats);
+    }
 
-        return producers;
-    }
-
-    /**
-     * Atualizar transport de um usuário
-     */
-    setUserTransport(
-        roomId: string,
-        userId: string,
-        transport: WebRtcTransport,
-        direction: 'send' | 'recv',
-    ) {
-        const voiceRoom = this.voiceRooms.get(roomId);
-        if (!voiceRoom) {
-            throw new Error('Voice room not found');
-        }
+    const producers = await Promise.all(
+      [...user.producers.values()].map(async (producer) =>
+        toStreamStats(
+          producer.id,
+          producer.kind,
+          producer.appData.source,
+          await producer.getStats(),
+          'inbound-rtp',
+        ),
+      ),
+    );
+
+    const consumers = await Promise.all(
+      [...user.consumers.values()].map(async (consumer) =>
+        toStreamStats(
+          consumer.id,
+          consumer.kind,
+          consumer.appData.source as ProducerSource | undefined,
+          await consumer.getStats(),
+          'outbound-rtp',
+        ),
+      ),
+    );
+
+    return {
+      userId: user.userId,
+      userName: user.userName,
+      collectedAt: new Date(),
+      transports,
+      producers,
+      consumers,
+      quality: rateConnection([...producers, ...consumers], thresholds),
+    };
+  }
+
+  private toProducerInfo(
+    user: VoiceUser,
+    producer: Producer<ProducerAppData>,
+  ): VoiceProducerInfo {
+    return {
+      userId: user.userId,
+      userName: user.userName,
+      producerId: producer.id,
+      kind: producer.kind,
+      source: producer.appData.source,
+    };
+  }
+
+  private findProducer(voiceRoom: VoiceRoom, producerId: string) {
+    for (const user of voiceRoom.users.values()) {
+      for (const producer of user.producers.values()) {
+        if (producer.id === producerId) return { user, producer };
+      }
+    }
 
-        const user = voiceRoom.users.get(userId);
-        if (!user) {
-            throw new Error('User not found');
-        }
+    return undefined;
+  }
+
+  /**
+   * Atualizar transport de um usuário
+   */
+  setUserTransport(
+    roomId: string,
+    userId: string,
+    transport: WebRtcTransport,
+    direction: 'send' | 'recv',
+  ) {
+    const voiceRoom = this.voiceRooms.get(roomId);
+    if (!voiceRoom) {
+      throw new Error('Voice room not found');
+    }
 
-        if (direction === 'send') {
-            user.producerTransport = transport;
-        } else {
-            user.consumerTransport = transport;
-        }
+    const user = voiceRoom.users.get(userId);
+    if (!user) {
+      throw new Error('User not found');
     }
 
-    /**
-     * Obter usuários no canal de voz
-     */
-    getVoiceUsers(roomId: string) {
-        const voiceRoom = this.voiceRooms.get(roomId);
-        if (!voiceRoom) {
-            return [];
-        }
+    // Um novo pedido na mesma direção substitui o anterior, que é fechado
+    // junto com seus producers/consumers para liberar a porta
+    const previous =
+      direction === 'send' ? user.producerTransport : user.consumerTransport;
+    if (previous && previous !== transport) {
+      previous.close();
+    }
 
-        return Array.from(voiceRoom.users.values()).map(u => ({
-            userId: u.userId,
-            userName: u.userName,
-            isMuted: u.isMuted,
-            hasProducer: !!u.producer,
-        }));
+    if (direction === 'send') {
+      user.producerTransport = transport;
+    } else {
+      user.consumerTransport = transport;
     }
+  }
+
+  /**
+   * Obter usuários no canal de voz
+   */
+  getVoiceUsers(roomId: string) {
+    const voiceRoom = this.voiceRooms.get(roomId);
+    if (!voiceRoom) {
+      return [];
+    }
+
+    return Array.from(voiceRoom.users.values()).map((u) => ({
+      userId: u.userId,
+      userName: u.userName,
+      isMuted: u.isMuted,
+      serverMuted: u.serverMuted,
+      hasProducer: u.producers.size > 0,
+      sources: [...u.producers.keys()],
+    }));
+  }
 }
@@ -0,0 +1,150 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter } from 'events';
+import * as mediasoup from 'mediasoup';
+import { Router } from 'node_modules/mediasoup/node/lib/RouterTypes';
+import { rtcPortSlice, WorkerPoolService } from './worker-pool.service';
+
+jest.mock('mediasoup', () => ({ createWorker: jest.fn() }));
+
+/** Worker falso: só o que o pool usa do mediasoup. */
+class FakeWorker extends EventEmitter {
+  static nextPid = 1;
+  pid = FakeWorker.nextPid++;
+  closed = false;
+
+  constructor(readonly settings: { rtcMinPort: number; rtcMaxPort: number }) {
+    super();
+  }
+
+  createRouter() {
+    const router = Object.assign(new EventEmitter(), {
+      worker: this,
+      observer: new EventEmitter(),
+    });
+    return Promise.resolve(router);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  die() {
+    this.closed = true;
+    this.emit('died', new Error('crashed'));
+  }
+}
+
+const createWorker = mediasoup.createWorker as unknown as jest.Mock;
+
+describe('WorkerPoolService', () => {
+  let pool: WorkerPoolService;
+  let created: FakeWorker[];
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  async function startPool(config: Record<string, unknown> = {}) {
+    pool = new WorkerPoolService(
+      new ConfigService({
+        voice: {
+          workers: 3,
+          mediasoup: { logLevel: 'none', rtcMinPort: 10000, rtcMaxPort: 10299 },
+        },
+        ...config,
+      }),
+    );
+    await pool.onModuleInit();
+  }
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    created = [];
+    createWorker.mockImplementation(
+      (settings: { rtcMinPort: number; rtcMaxPort: number }) => {
+        const worker = new FakeWorker(settings);
+        created.push(worker);
+        return Promise.resolve(worker);
+      },
+    );
+  });
+
+  afterEach(() => {
+    pool.onModuleDestroy();
+    createWorker.mockReset();
+  });
+
+  it('gives each worker its own slice of the RTC port range', async () => {
+    await startPool();
+
+    expect(created.map((w) => w.settings)).toEqual([
+      expect.objectContaining({ rtcMinPort: 10000, rtcMaxPort: 10099 }),
+      expect.objectContaining({ rtcMinPort: 10100, rtcMaxPort: 10199 }),
+      expect.objectContaining({ rtcMinPort: 10200, rtcMaxPort: 10299 }),
+    ]);
+  });
+
+  it('splits the range across the processes of the cluster', async () => {
+    await startPool({
+      cluster: { enabled: true, workers: 2, index: 1 },
+    });
+
+    expect(created.map((w) => w.settings.rtcMinPort)).toEqual([
+      10150, 10200, 10250,
+    ]);
+    expect(created[2].settings.rtcMaxPort).toBe(10299);
+  });
+
+  it('places each router on the least loaded worker', async () => {
+    await startPool();
+
+    const routers: Router[] = [];
+    for (let i = 0; i < 4; i++) {
+      routers.push(await pool.createRouter({}));
+    }
+    expect(pool.getLoad().map((w) => w.routers)).toEqual([2, 1, 1]);
+
+    routers[1].observer.emit('close');
+    routers[2].observer.emit('close');
+    await pool.createRouter({});
+
+    expect(pool.getLoad().map((w) => w.routers)).toEqual([2, 1, 0]);
+  });
+
+  it('replaces a dead worker on the same ports and hands over its routers', async () => {
+    await startPool();
+    const lost = jest.fn();
+    pool.onWorkerDied(lost);
+
+    const router = await pool.createRouter({});
+    const dead = created[0];
+    dead.die();
+    await flush();
+
+    expect(created).toHaveLength(4);
+    expect(created[3].settings).toEqual(dead.settings);
+    expect(lost).toHaveBeenCalledWith([router]);
+    expect(pool.getLoad().map((w) => w.pid)).not.toContain(dead.pid);
+    expect(pool.getLoad()).toHaveLength(3);
+  });
+
+  it('does not replace workers while shutting down', async () => {
+    await startPool();
+    pool.onModuleDestroy();
+
+    created[0].die();
+    await flush();
+
+    expect(created).toHaveLength(3);
+  });
+});
+
+describe('rtcPortSlice', () => {
+  it('rejects a range smaller than the number of workers', () => {
+    expect(() => rtcPortSlice(10000, 10001, 0, 3)).toThrow(
+      'RTC port range 10000-10001 is too small for 3 mediasoup workers',
+    );
+  });
+});
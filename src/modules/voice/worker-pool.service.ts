@@ -0,0 +1,177 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as mediasoup from 'mediasoup';
+import {
+  Router,
+  RouterOptions,
+} from 'node_modules/mediasoup/node/lib/RouterTypes';
+import { Worker } from 'node_modules/mediasoup/node/lib/WorkerTypes';
+import { MediasoupConfig } from '../../config/configuration';
+
+interface PooledWorker {
+  worker: Worker;
+  routers: Set<Router>;
+  /** Posição do worker, que define a sua fatia da faixa de portas. */
+  slot: number;
+}
+
+/**
+ * Fatia `slot` de `slots` partes iguais da faixa de portas RTC; a última
+ * fica com o resto da divisão.
+ */
+export function rtcPortSlice(
+  rtcMinPort: number,
+  rtcMaxPort: number,
+  slot: number,
+  slots: number,
+) {
+  const size = Math.floor((rtcMaxPort - rtcMinPort + 1) / slots);
+  if (size < 1) {
+    throw new Error(
+      `RTC port range ${rtcMinPort}-${rtcMaxPort} is too small for ${slots} mediasoup workers`,
+    );
+  }
+
+  const start = rtcMinPort + slot * size;
+  return {
+    rtcMinPort: start,
+    rtcMaxPort: slot === slots - 1 ? rtcMaxPort : start + size - 1,
+  };
+}
+
+/**
+ * Pool de Workers do mediasoup (um por núcleo, por padrão; um por processo
+ * no modo cluster). Cada Router vai para o worker com menos salas; um
+ * worker que morre é substituído e quem se registrou em `onWorkerDied`
+ * recebe os Routers perdidos.
+ *
+ * A faixa de portas RTC é dividida entre todos os workers de todos os
+ * processos do cluster, para que nenhum dispute porta com outro.
+ */
+@Injectable()
+export class WorkerPoolService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WorkerPoolService.name);
+  private workers: PooledWorker[] = [];
+  private diedListeners: ((routers: Router[]) => void | Promise<void>)[] = [];
+  private closing = false;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onModuleInit() {
+    const size = this.poolSize();
+    this.logger.log(`🎙️ Iniciando ${size} mediasoup Workers...`);
+
+    for (let slot = 0; slot < size; slot++) {
+      this.workers.push(await this.createWorker(slot));
+    }
+
+    this.logger.log('✅ mediasoup Workers criados com sucesso');
+  }
+
+  onModuleDestroy() {
+    this.closing = true;
+    this.workers.forEach(({ worker }) => worker.close());
+  }
+
+  onWorkerDied(listener: (routers: Router[]) => void | Promise<void>) {
+    this.diedListeners.push(listener);
+  }
+
+  /** Cria o Router no worker com menos Routers abertos. */
+  async createRouter(options: RouterOptions): Promise<Router> {
+    const target = this.workers.reduce<PooledWorker | undefined>(
+      (least, candidate) =>
+        !least || candidate.routers.size < least.routers.size
+          ? candidate
+          : least,
+      undefined,
+    );
+    if (!target) {
+      throw new Error('No mediasoup workers available');
+    }
+
+    const router = await target.worker.createRouter(options);
+    target.routers.add(router);
+    router.observer.once('close', () => {
+      // Com o worker morto os Routers perdidos ainda são repassados
+      if (!target.worker.closed) target.routers.delete(router);
+    });
+
+    return router;
+  }
+
+  /** Carga atual de cada worker, para diagnóstico. */
+  getLoad() {
+    return this.workers.map(({ worker, routers }) => ({
+      pid: worker.pid,
+      routers: routers.size,
+    }));
+  }
+
+  private poolSize() {
+    return this.configService.getOrThrow<number>('voice.workers');
+  }
+
+  private portRange(slot: number) {
+    const { rtcMinPort, rtcMaxPort } =
+      this.configService.getOrThrow<MediasoupConfig>('voice.mediasoup');
+    const size = this.poolSize();
+    const processes = this.configService.get<boolean>('cluster.enabled')
+      ? this.configService.getOrThrow<number>('cluster.workers')
+      : 1;
+    const processIndex = this.configService.get<number>('cluster.index', 0);
+
+    return rtcPortSlice(
+      rtcMinPort,
+      rtcMaxPort,
+      processIndex * size + slot,
+      processes * size,
+    );
+  }
+
+  private async createWorker(slot: number): Promise<PooledWorker> {
+    const { logLevel } =
+      this.configService.getOrThrow<MediasoupConfig>('voice.mediasoup');
+
+    const worker = await mediasoup.createWorker({
+      logLevel,
+      logTags: ['info', 'ice', 'dtls', 'rtp', 'srtp', 'rtcp'],
+      ...this.portRange(slot),
+    });
+
+    const pooled: PooledWorker = { worker, routers: new Set(), slot };
+    worker.on('died', (error) => {
+      this.logger.error(
+        `❌ mediasoup Worker ${worker.pid} morreu: ${error.message}`,
+      );
+      void this.replaceWorker(pooled);
+    });
+
+    return pooled;
+  }
+
+  private async replaceWorker(dead: PooledWorker) {
+    this.workers = this.workers.filter((w) => w !== dead);
+    if (this.closing) return;
+
+    try {
+      // O substituto herda as portas do worker morto
+      this.workers.push(await this.createWorker(dead.slot));
+      this.logger.log('🔁 mediasoup Worker substituído');
+    } catch (error) {
+      this.logger.error(
+        `Erro ao substituir mediasoup Worker: ${(error as Error).message}`,
+      );
+    }
+
+    const routers = [...dead.routers];
+    for (const listener of this.diedListeners) {
+      await listener(routers);
+    }
+  }
+}